@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { buildLeaderboard, parseLeaderboardQuery } from "@/lib/leaderboard";
+import { fetchLeaguePlayerStats, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const { filters, options, error } = parseLeaderboardQuery(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchLeaguePlayerStats(options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  const { entries, totalCount, totalPages } = buildLeaderboard(result.data, filters);
+
+  return NextResponse.json({
+    data: entries,
+    meta: {
+      total_pages: totalPages,
+      current_page: filters.page,
+      next_page: filters.page < totalPages ? filters.page + 1 : null,
+      per_page: filters.perPage,
+      total_count: totalCount,
+      target: filters.target,
+      sort: filters.sort,
+      order: filters.order,
+    },
+  }, { headers: traceHeaders(trace) });
+}
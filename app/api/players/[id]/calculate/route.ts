@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { fetchPlayerSeasonAverages, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import {
+  calculateShotsToTarget,
+  calculateTrueShooting,
+  parseMode,
+  parseTargetOption,
+} from "@/lib/shots";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const playerId = Number(id);
+
+  if (!Number.isFinite(playerId)) {
+    return NextResponse.json(
+      { error: "Invalid player ID", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const rawMode = searchParams.get("mode");
+  const mode = rawMode === null ? "naive" : parseMode(rawMode);
+
+  if (mode === null) {
+    return NextResponse.json(
+      { error: "Invalid mode (expected naive or true-shooting)", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchPlayerSeasonAverages(playerId, options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  const stats = result.data;
+
+  const calculation = calculateShotsToTarget(stats.pts, stats.fga, target);
+  const trueShooting = calculateTrueShooting(stats, target);
+
+  if (!calculation || !trueShooting) {
+    return NextResponse.json(
+      { error: "Player has no field goal attempts or points this season", code: "NoAttempts" },
+      { status: 422, headers: traceHeaders(trace) },
+    );
+  }
+
+  return NextResponse.json({
+    data: {
+      ...stats,
+      mode,
+      ...calculation,
+      // The naive pts/fga number is always included; true shooting adds the FGA + free-throw trip view
+      ...(mode === "true-shooting" && { trueShooting }),
+    },
+  }, { headers: traceHeaders(trace) });
+}
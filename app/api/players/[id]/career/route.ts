@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { fetchPlayerCareer, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { calculateShotsToTarget, parseTargetOption } from "@/lib/shots";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const playerId = Number(id);
+
+  if (!Number.isFinite(playerId)) {
+    return NextResponse.json(
+      { error: "Invalid player ID", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchPlayerCareer(playerId));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  const career = result.data;
+
+  return NextResponse.json({
+    data: {
+      ...career,
+      target,
+      seasons: career.seasons.map((season) => ({
+        ...season,
+        shots: calculateShotsToTarget(season.pts, season.fga, target)?.shots ?? null,
+      })),
+    },
+  }, { headers: traceHeaders(trace) });
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { projectMatchup } from "@/lib/matchup";
+import { fetchMatchupStats, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { parseTargetOption } from "@/lib/shots";
+import { getTeam } from "@/lib/teams";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const playerId = Number(id);
+
+  if (!Number.isFinite(playerId)) {
+    return NextResponse.json(
+      { error: "Invalid player ID", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const opponent = getTeam(Number(searchParams.get("opponent")));
+
+  if (!opponent) {
+    return NextResponse.json(
+      { error: "Invalid opponent (expected a team ID)", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchMatchupStats(playerId, opponent.id, options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  const { stats, split, defense } = result.data;
+  const projection = projectMatchup({ baseline: stats, split, defense }, target);
+
+  if (!projection) {
+    return NextResponse.json(
+      { error: "Player has no field goal attempts or points this season", code: "NoAttempts" },
+      { status: 422, headers: traceHeaders(trace) },
+    );
+  }
+
+  return NextResponse.json({
+    data: {
+      player: stats.player,
+      season: stats.season,
+      season_type: stats.season_type,
+      requested_season: stats.requested_season,
+      opponent,
+      baseline: { pts: stats.pts, fga: stats.fga },
+      split,
+      defense,
+      projection,
+    },
+  }, { headers: traceHeaders(trace) });
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { fetchPlayerSplits, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { calculateShotsToTarget, parseTargetOption } from "@/lib/shots";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const playerId = Number(id);
+
+  if (!Number.isFinite(playerId)) {
+    return NextResponse.json(
+      { error: "Invalid player ID", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchPlayerSplits(playerId, options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  const splits = result.data;
+
+  return NextResponse.json({
+    data: {
+      ...splits,
+      target,
+      splits: splits.splits.map((split) => ({
+        ...split,
+        shots: calculateShotsToTarget(split.pts, split.fga, target)?.shots ?? null,
+      })),
+    },
+  }, { headers: traceHeaders(trace) });
+}
@@ -1,10 +1,12 @@
 import { NextResponse } from "next/server";
-import { fetchPlayerSeasonAverages } from "@/lib/nba";
+import { fetchPlayerSeasonAverages, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
 
 export const revalidate = 3600;
 
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
@@ -12,19 +14,26 @@ export async function GET(
 
   if (!Number.isFinite(playerId)) {
     return NextResponse.json(
-      { error: "Invalid player ID" },
+      { error: "Invalid player ID", code: "InvalidInput" },
       { status: 400 },
     );
   }
 
-  const stats = await fetchPlayerSeasonAverages(playerId);
+  const { searchParams } = new URL(request.url);
+  const { options, error } = parseSeasonOptions(searchParams);
 
-  if (!stats) {
-    return NextResponse.json(
-      { error: "Player stats not found" },
-      { status: 404 },
-    );
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchPlayerSeasonAverages(playerId, options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
   }
 
-  return NextResponse.json({ data: stats });
+  return NextResponse.json({ data: result.data }, { headers: traceHeaders(trace) });
 }
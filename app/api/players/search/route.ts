@@ -1,42 +1,72 @@
 import { NextResponse } from "next/server";
-import { searchPlayers } from "@/lib/nba";
+import { createLogger } from "@/lib/logger";
+import { ACTIVE_FILTERS, nbaErrorBody, nbaErrorStatus, searchPlayers } from "@/lib/nba";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
 
 export const revalidate = 3600;
 
+const DEFAULT_PER_PAGE = 25;
+const MAX_PER_PAGE = 100;
+
+const log = createLogger("api/search");
+
+function emptyMeta(perPage: number) {
+  return { total_pages: 0, current_page: 1, next_page: null, per_page: perPage, total_count: 0 };
+}
+
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get("q");
+  const page = Number(searchParams.get("page") ?? 1);
+  const perPage = Number(searchParams.get("per_page") ?? DEFAULT_PER_PAGE);
+  const rawActive = searchParams.get("active") ?? "current";
+  const active = ACTIVE_FILTERS.find((filter) => filter === rawActive);
+
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1) {
+    return NextResponse.json(
+      { error: "Invalid page or per_page", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  if (!active) {
+    return NextResponse.json(
+      { error: "Invalid active (expected all, current or retired)", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const cappedPerPage = Math.min(perPage, MAX_PER_PAGE);
 
   if (!query) {
-    return NextResponse.json({
-      data: [],
-      meta: { total_pages: 0, current_page: 1, next_page: null, per_page: 25, total_count: 0 },
-    });
+    return NextResponse.json({ data: [], meta: emptyMeta(cappedPerPage) });
   }
 
-  try {
-    const result = await searchPlayers(query);
-    console.log(`Search for "${query}": Found ${result.data.length} players${result.error ? `; error: ${result.error}` : ""}`);
-    const status = result.error ? 503 : 200;
+  const { result, trace } = await withUpstreamTrace(request, () => searchPlayers(query, { active, page, perPage: cappedPerPage }));
+
+  if (result.error !== undefined) {
+    log.info("Search failed", { request_id: trace.requestId, query, code: result.error.kind });
+    // Keep the empty list shape so clients can render "no results" alongside the message
     return NextResponse.json(
-      {
-        data: result.data,
-        meta: {
-          total_pages: 1,
-          current_page: 1,
-          next_page: null,
-          per_page: 25,
-          total_count: result.data.length,
-        },
-        ...(result.error && { error: result.error }),
-      },
-      { status },
+      { data: [], meta: emptyMeta(cappedPerPage), ...nbaErrorBody(result.error) },
+      { status: nbaErrorStatus(result.error), headers: traceHeaders(trace) },
     );
-  } catch (error) {
-    console.error("Search error:", error);
-    return NextResponse.json({
-      data: [],
-      meta: { total_pages: 0, current_page: 1, next_page: null, per_page: 25, total_count: 0 },
-    });
   }
+
+  const { players, total } = result.data;
+  log.info("Search", { request_id: trace.requestId, query, total });
+  const totalPages = Math.ceil(total / cappedPerPage);
+  return NextResponse.json(
+    {
+      data: players,
+      meta: {
+        total_pages: totalPages,
+        current_page: page,
+        next_page: page < totalPages ? page + 1 : null,
+        per_page: cappedPerPage,
+        total_count: total,
+      },
+    },
+    { headers: traceHeaders(trace) },
+  );
 }
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { mapWithConcurrency, DEFAULT_CONCURRENCY } from "@/lib/concurrency";
+import { fetchPlayerSeasonAverages, nbaErrorBody } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { calculateShotsToTarget, parseTargetOption } from "@/lib/shots";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+// Comparison view shows at most this many players side by side
+const MAX_BATCH_IDS = 6;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const ids = (searchParams.get("ids") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map(Number);
+
+  if (ids.length === 0 || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    return NextResponse.json(
+      { error: "Invalid ids (expected comma-separated player IDs)", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const uniqueIds = [...new Set(ids)];
+
+  if (uniqueIds.length > MAX_BATCH_IDS) {
+    return NextResponse.json(
+      { error: `Too many ids (max ${MAX_BATCH_IDS})`, code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result: results, trace } = await withUpstreamTrace(request, () =>
+    mapWithConcurrency(uniqueIds, DEFAULT_CONCURRENCY, async (playerId) => ({
+      playerId,
+      ...(await fetchPlayerSeasonAverages(playerId, options)),
+    })),
+  );
+
+  // Rank by fewest shots to the target; players without usable stats are listed under `errors`
+  const ranked = results
+    .flatMap(({ data: stats }) => {
+      const calculation = stats && calculateShotsToTarget(stats.pts, stats.fga, target);
+      return stats && calculation ? [{ ...stats, ...calculation }] : [];
+    })
+    .sort((a, b) => a.shots - b.shots)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+  const errors = results
+    .filter(({ playerId }) => !ranked.some((entry) => entry.player.id === playerId))
+    .map(({ playerId, error }) => ({
+      id: playerId,
+      ...(error ? nbaErrorBody(error) : { error: "Player has no points this season", code: "NoSeasonData" }),
+    }));
+
+  return NextResponse.json({ data: ranked, errors, target }, { headers: traceHeaders(trace) });
+}
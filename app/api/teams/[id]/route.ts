@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { fetchTeamRoster, nbaErrorBody, nbaErrorStatus } from "@/lib/nba";
+import { rankRoster } from "@/lib/roster";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { parseTargetOption } from "@/lib/shots";
+import { getTeam } from "@/lib/teams";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const team = getTeam(Number(id));
+
+  if (!team) {
+    return NextResponse.json(
+      { error: "Invalid team ID", code: "InvalidInput" },
+      { status: 400 },
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return NextResponse.json({ error: targetError, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return NextResponse.json({ error, code: "InvalidInput" }, { status: 400 });
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchTeamRoster(team.id, options));
+
+  if (result.error !== undefined) {
+    return NextResponse.json(nbaErrorBody(result.error), {
+      status: nbaErrorStatus(result.error),
+      headers: traceHeaders(trace),
+    });
+  }
+
+  return NextResponse.json({
+    data: {
+      team,
+      season: result.data.season,
+      season_type: result.data.season_type,
+      target,
+      players: rankRoster(result.data.players, target),
+    },
+  }, { headers: traceHeaders(trace) });
+}
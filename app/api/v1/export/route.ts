@@ -0,0 +1,93 @@
+import { apiData, apiNbaError, cachedBody, invalidInput, parseId, uncachedBody } from "@/lib/api";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "@/lib/concurrency";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  leaderboardExportRow,
+  MAX_EXPORT_IDS,
+  statsExportRow,
+  toCsv,
+  type ExportRow,
+} from "@/lib/export";
+import { buildLeaderboard, parseLeaderboardQuery } from "@/lib/leaderboard";
+import { fetchLeaguePlayerStats, fetchPlayerSeasonAverages, type NbaResult } from "@/lib/nba";
+import { getCurrentSeason } from "@/lib/seasons";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+/**
+ * Rows for `ids`, or for every player matching the leaderboard filters when `ids` is absent
+ * (the whole filtered list, in the leaderboard's order; page and per_page are ignored)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const format = EXPORT_FORMATS.find((value) => value === (searchParams.get("format") ?? "csv"));
+
+  if (!format) {
+    return invalidInput(`Invalid format (expected ${EXPORT_FORMATS.join(" or ")})`);
+  }
+
+  // Season, target and the leaderboard filters share one parser; per-id exports only use the first two
+  const { filters, options, error } = parseLeaderboardQuery(searchParams);
+
+  if (error !== undefined) {
+    return invalidInput(error);
+  }
+
+  const rawIds = searchParams.get("ids");
+  const ids = rawIds === null ? null : rawIds.split(",").map((id) => parseId(id.trim()));
+
+  if (ids?.includes(undefined)) {
+    return invalidInput("Invalid ids (expected comma-separated player IDs)");
+  }
+
+  const uniqueIds = ids && [...new Set(ids.filter((id) => id !== undefined))];
+
+  if (uniqueIds && uniqueIds.length > MAX_EXPORT_IDS) {
+    return invalidInput(`Too many ids (max ${MAX_EXPORT_IDS})`);
+  }
+
+  const context = {
+    target: filters.target,
+    season: options.season ?? getCurrentSeason(),
+    seasonType: options.seasonType ?? "Regular Season",
+  };
+
+  // Per-id failures become rows with an error; only the league lookup fails the whole export
+  const { result, trace } = await withUpstreamTrace(request, async (): Promise<NbaResult<ExportRow[]>> => {
+    if (uniqueIds) {
+      const data = await mapWithConcurrency(uniqueIds, DEFAULT_CONCURRENCY, async (playerId) =>
+        statsExportRow(playerId, await fetchPlayerSeasonAverages(playerId, options), context),
+      );
+      return { data };
+    }
+    const league = await fetchLeaguePlayerStats(options);
+    if (league.error !== undefined) return league;
+    const { entries } = buildLeaderboard(league.data, { ...filters, page: 1, perPage: Math.max(league.data.length, 1) });
+    return { data: entries.map((entry) => leaderboardExportRow(entry, context)) };
+  });
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  const rows = result.data;
+
+  const meta = { target: context.target, season: context.season, season_type: context.seasonType, count: rows.length };
+  const cache = rows.every((row) => !row.error);
+
+  if (format === "json") {
+    return apiData(request, rows, { meta, trace, cache });
+  }
+
+  const filename = `shots-to-${context.target}-${context.season}${uniqueIds ? "" : "-leaderboard"}.csv`;
+  const csv = toCsv(rows, EXPORT_COLUMNS);
+  const contentHeaders = {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  };
+  return cache
+    ? cachedBody(request, csv, contentHeaders, traceHeaders(trace))
+    : uncachedBody(csv, contentHeaders, traceHeaders(trace));
+}
@@ -0,0 +1,36 @@
+import { apiData, apiNbaError, invalidInput, pageMeta } from "@/lib/api";
+import { buildLeaderboard, parseLeaderboardQuery } from "@/lib/leaderboard";
+import { fetchLeaguePlayerStats } from "@/lib/nba";
+import { withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(request: Request) {
+  const { filters, options, error } = parseLeaderboardQuery(new URL(request.url).searchParams);
+
+  if (error !== undefined) {
+    return invalidInput(error);
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchLeaguePlayerStats(options));
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  const { entries, totalCount } = buildLeaderboard(result.data, filters);
+
+  return apiData(
+    request,
+    entries.map(({ pointsPerShot, ...entry }) => ({ ...entry, points_per_shot: pointsPerShot })),
+    {
+      meta: {
+        ...pageMeta(filters.page, filters.perPage, totalCount),
+        target: filters.target,
+        sort: filters.sort,
+        order: filters.order,
+      },
+      trace,
+    },
+  );
+}
@@ -0,0 +1,6 @@
+import { cachedJson } from "@/lib/api";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export function GET(request: Request) {
+  return cachedJson(request, buildOpenApiDocument());
+}
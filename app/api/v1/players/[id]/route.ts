@@ -0,0 +1,31 @@
+import { apiData, apiNbaError, invalidInput, parseId } from "@/lib/api";
+import { fetchPlayerSeasonAverages } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const playerId = parseId((await params).id);
+
+  if (!playerId) {
+    return invalidInput("Invalid player ID (expected a positive integer)");
+  }
+
+  const { options, error } = parseSeasonOptions(new URL(request.url).searchParams);
+
+  if (error !== undefined) {
+    return invalidInput(error);
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchPlayerSeasonAverages(playerId, options));
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  return apiData(request, result.data, { trace });
+}
@@ -0,0 +1,101 @@
+import { apiData, apiError, apiNbaError, invalidInput, parseId } from "@/lib/api";
+import { projectMatchup } from "@/lib/matchup";
+import { fetchMatchupStats, fetchPlayerSeasonAverages, type MatchupStats, type NbaResult, type PlayerStats } from "@/lib/nba";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { calculateShotsToTarget, calculateTrueShooting, parseTargetOption } from "@/lib/shots";
+import { getTeam } from "@/lib/teams";
+import { withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+// Season stats, plus the head-to-head split and defense when an opponent is given
+type ShotsInput = { stats: PlayerStats } & Partial<Omit<MatchupStats, "stats">>;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const playerId = parseId((await params).id);
+
+  if (!playerId) {
+    return invalidInput("Invalid player ID (expected a positive integer)");
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return invalidInput(targetError);
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return invalidInput(error);
+  }
+
+  const rawOpponent = searchParams.get("opponent");
+  const opponent = rawOpponent === null ? null : getTeam(parseId(rawOpponent) ?? 0);
+
+  if (opponent === undefined) {
+    return invalidInput("Invalid opponent (expected a team ID)");
+  }
+
+  const { result, trace } = await withUpstreamTrace(
+    request,
+    async (): Promise<NbaResult<ShotsInput>> => {
+      if (opponent) return fetchMatchupStats(playerId, opponent.id, options);
+      const stats = await fetchPlayerSeasonAverages(playerId, options);
+      return stats.error === undefined ? { data: { stats: stats.data } } : stats;
+    },
+  );
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  const { stats, split, defense } = result.data;
+  const calculation = calculateShotsToTarget(stats.pts, stats.fga, target);
+  const trueShooting = calculateTrueShooting(stats, target);
+  const projection = split ? projectMatchup({ baseline: stats, split, defense: defense ?? null }, target) : null;
+
+  if (!calculation || !trueShooting) {
+    return apiError(422, "NoAttempts", "Player has no field goal attempts or points this season", { trace });
+  }
+
+  return apiData(request, {
+    player: stats.player,
+    season: stats.season,
+    season_type: stats.season_type,
+    requested_season: stats.requested_season,
+    target,
+    pts: stats.pts,
+    fga: stats.fga,
+    shots: calculation.shots,
+    points_per_shot: calculation.pointsPerShot,
+    true_shooting: {
+      ts_pct: trueShooting.tsPct,
+      fga: trueShooting.fga,
+      ft_trips: trueShooting.ftTrips,
+      fta: trueShooting.fta,
+      breakdown: {
+        twos: trueShooting.breakdown.twos,
+        threes: trueShooting.breakdown.threes,
+        free_throws: trueShooting.breakdown.freeThrows,
+      },
+    },
+    matchup:
+      opponent && split && projection
+        ? {
+            opponent,
+            shots: projection.shots,
+            points_per_shot: projection.pointsPerShot,
+            defense_factor: projection.defenseFactor,
+            split: { gp: split.gp, pts: split.pts, fga: split.fga },
+            split_points_per_shot: projection.splitPointsPerShot,
+            split_weight: projection.splitWeight,
+            small_sample: projection.smallSample,
+          }
+        : null,
+  }, { trace });
+}
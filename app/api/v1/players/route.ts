@@ -0,0 +1,31 @@
+import { apiData, apiNbaError, DEFAULT_PER_PAGE, invalidInput, MAX_PER_PAGE, pageMeta } from "@/lib/api";
+import { ACTIVE_FILTERS, searchPlayers } from "@/lib/nba";
+import { withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim();
+  const page = Number(searchParams.get("page") ?? 1);
+  const perPage = Number(searchParams.get("per_page") ?? DEFAULT_PER_PAGE);
+  const active = ACTIVE_FILTERS.find((filter) => filter === (searchParams.get("active") ?? "current"));
+
+  if (!query) {
+    return invalidInput("Missing q (part of the player's name)");
+  }
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1 || perPage > MAX_PER_PAGE) {
+    return invalidInput(`Invalid page or per_page (per_page is at most ${MAX_PER_PAGE})`);
+  }
+  if (!active) {
+    return invalidInput("Invalid active (expected all, current or retired)");
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => searchPlayers(query, { active, page, perPage }));
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  return apiData(request, result.data.players, { meta: pageMeta(page, perPage, result.data.total), trace });
+}
@@ -0,0 +1,56 @@
+import { apiData, apiError, apiNbaError, invalidInput, parseId } from "@/lib/api";
+import { fetchTeamRoster } from "@/lib/nba";
+import { rankRoster } from "@/lib/roster";
+import { parseSeasonOptions } from "@/lib/seasons";
+import { parseTargetOption } from "@/lib/shots";
+import { getTeam } from "@/lib/teams";
+import { withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const teamId = parseId((await params).id);
+
+  if (!teamId) {
+    return invalidInput("Invalid team ID (expected a positive integer)");
+  }
+
+  const team = getTeam(teamId);
+
+  if (!team) {
+    return apiError(404, "NotFound", `No team with ID ${teamId}`);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { target, error: targetError } = parseTargetOption(searchParams);
+
+  if (targetError !== undefined) {
+    return invalidInput(targetError);
+  }
+
+  const { options, error } = parseSeasonOptions(searchParams);
+
+  if (error !== undefined) {
+    return invalidInput(error);
+  }
+
+  const { result, trace } = await withUpstreamTrace(request, () => fetchTeamRoster(team.id, options));
+
+  if (result.error !== undefined) {
+    return apiNbaError(result.error, trace);
+  }
+
+  return apiData(request, {
+    team,
+    season: result.data.season,
+    season_type: result.data.season_type,
+    target,
+    players: rankRoster(result.data.players, target).map(({ pointsPerShot, ...player }) => ({
+      ...player,
+      points_per_shot: pointsPerShot,
+    })),
+  }, { trace });
+}
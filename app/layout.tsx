@@ -13,7 +13,15 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+// Base for absolute Open Graph image URLs; Vercel provides the production domain
+const siteUrl =
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_PROJECT_PRODUCTION_URL
+    ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
+    : "http://localhost:3000");
+
 export const metadata: Metadata = {
+  metadataBase: new URL(siteUrl),
   title: "How Many Shots to Score 30",
   description: "Calculate how many shots a player needs to score 30 points based on their season averages",
 };
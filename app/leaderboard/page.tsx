@@ -0,0 +1,11 @@
+import type { Metadata } from "next";
+import { Leaderboard } from "@/components/Leaderboard";
+
+export const metadata: Metadata = {
+  title: "Fewest Shots to Score 30 | Leaderboard",
+  description: "Every NBA player ranked by how many shots they need to score 30 points",
+};
+
+export default function LeaderboardPage() {
+  return <Leaderboard />;
+}
@@ -1,5 +1,34 @@
+import { redirect } from "next/navigation";
 import { ShotsTo30Calculator } from "@/components/ShotsTo30Calculator";
+import { calculatorPath, parseCalculatorQuery, parsePlayerPathId } from "@/lib/links";
+import { DEFAULT_TARGET } from "@/lib/shots";
 
-export default function Home() {
-  return <ShotsTo30Calculator />;
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{
+    player?: string;
+    target?: string;
+    season?: string;
+    seasonType?: string;
+    mode?: string;
+    opponent?: string;
+  }>;
+}) {
+  const query = await searchParams;
+  const link = parseCalculatorQuery(query);
+
+  // Older shared links (/?player=<id>) move to the player's own page
+  const playerId = parsePlayerPathId(query.player ?? "");
+  if (playerId) redirect(calculatorPath({ ...link, playerId }));
+
+  return (
+    <ShotsTo30Calculator
+      initialTarget={link.target ?? DEFAULT_TARGET}
+      initialSeason={link.season}
+      initialSeasonType={link.seasonType}
+      initialMode={link.mode}
+      initialOpponent={link.opponent}
+    />
+  );
 }
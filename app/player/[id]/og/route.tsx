@@ -0,0 +1,66 @@
+import { ImageResponse } from "next/og";
+import { parseCalculatorQuery, parsePlayerPathId, shareSummary } from "@/lib/links";
+import { fetchPlayerSeasonAverages } from "@/lib/nba";
+import { DEFAULT_TARGET } from "@/lib/shots";
+import { traceHeaders, withUpstreamTrace } from "@/lib/upstream";
+
+export const revalidate = 3600;
+
+const SIZE = { width: 1200, height: 630 };
+
+/**
+ * Open Graph preview for /player/[id]: the player's shots to the link's target.
+ * Falls back to a generic card when the stats can't be loaded, so shared links always get an image.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const playerId = parsePlayerPathId((await params).id);
+  const link = parseCalculatorQuery(new URL(request.url).searchParams);
+  const target = link.target ?? DEFAULT_TARGET;
+
+  const { result, trace } = await withUpstreamTrace(request, async () =>
+    playerId ? fetchPlayerSeasonAverages(playerId, { season: link.season, seasonType: link.seasonType }) : null,
+  );
+  const stats = result?.error === undefined ? result?.data : undefined;
+  const summary = stats ? shareSummary(stats, target, link.mode) : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "center",
+          padding: "80px",
+          background: "linear-gradient(135deg, #eff6ff 0%, #e0e7ff 100%)",
+          color: "#111827",
+          fontFamily: "sans-serif",
+        }}
+      >
+        <div style={{ fontSize: 56, fontWeight: 700 }}>
+          {stats ? `${stats.player.first_name} ${stats.player.last_name}`.trim() : `How Many Shots to Score ${target}`}
+        </div>
+        {stats && summary ? (
+          <div style={{ display: "flex", alignItems: "baseline", marginTop: 24 }}>
+            <div style={{ fontSize: 160, fontWeight: 800, color: "#2563eb" }}>{summary.shots}</div>
+            <div style={{ fontSize: 48, marginLeft: 32, color: "#374151" }}>{summary.caption}</div>
+          </div>
+        ) : (
+          <div style={{ fontSize: 48, marginTop: 24, color: "#374151" }}>
+            {`How many shots an NBA player needs to score ${target}`}
+          </div>
+        )}
+        {stats && (
+          <div style={{ fontSize: 32, marginTop: 32, color: "#6b7280" }}>
+            {`${stats.pts} PPG · ${stats.fga} FGA · ${stats.season} ${stats.season_type}`}
+          </div>
+        )}
+      </div>
+    ),
+    { ...SIZE, headers: { "Cache-Control": "public, max-age=3600", ...traceHeaders(trace) } },
+  );
+}
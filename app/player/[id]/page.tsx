@@ -0,0 +1,70 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { ShotsTo30Calculator } from "@/components/ShotsTo30Calculator";
+import { calculatorPath, parseCalculatorQuery, parsePlayerPathId, playerImagePath, shareSummary } from "@/lib/links";
+import { fetchPlayerSeasonAverages } from "@/lib/nba";
+import type { SeasonType } from "@/lib/seasons";
+import { DEFAULT_TARGET } from "@/lib/shots";
+
+type PlayerPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{
+    target?: string;
+    season?: string;
+    seasonType?: string;
+    mode?: string;
+    opponent?: string;
+  }>;
+};
+
+// Shared by generateMetadata and the page so the stats are fetched once per render
+const loadStats = cache((playerId: number, season?: string, seasonType?: SeasonType) =>
+  fetchPlayerSeasonAverages(playerId, { season, seasonType }),
+);
+
+export async function generateMetadata({ params, searchParams }: PlayerPageProps): Promise<Metadata> {
+  const playerId = parsePlayerPathId((await params).id);
+  if (!playerId) return {};
+
+  const link = parseCalculatorQuery(await searchParams);
+  const stats = await loadStats(playerId, link.season, link.seasonType);
+  if (stats.error !== undefined) return {};
+
+  const { player, pts, fga, season, season_type } = stats.data;
+  const name = `${player.first_name} ${player.last_name}`.trim();
+  const target = link.target ?? DEFAULT_TARGET;
+  const summary = shareSummary(stats.data, target, link.mode);
+  const title = summary ? `${name} needs ${summary.shots} ${summary.caption}` : `${name}: Shots to Score ${target}`;
+  const description = `Based on ${pts} PPG on ${fga} FGA in the ${season} ${season_type}`;
+  const image = playerImagePath({ ...link, playerId });
+
+  return {
+    title,
+    description,
+    alternates: { canonical: calculatorPath({ ...link, playerId }) },
+    openGraph: { title, description, images: [{ url: image, width: 1200, height: 630, alt: title }] },
+    twitter: { card: "summary_large_image", title, description, images: [image] },
+  };
+}
+
+export default async function PlayerPage({ params, searchParams }: PlayerPageProps) {
+  const playerId = parsePlayerPathId((await params).id);
+  if (!playerId) notFound();
+
+  const link = parseCalculatorQuery(await searchParams);
+  const stats = await loadStats(playerId, link.season, link.seasonType);
+
+  // Errors (unknown player, no games, NBA API down) are left to the calculator to fetch and explain
+  return (
+    <ShotsTo30Calculator
+      initialPlayerId={playerId}
+      initialStats={stats.error === undefined && stats.data.fga > 0 && stats.data.pts > 0 ? stats.data : undefined}
+      initialTarget={link.target ?? DEFAULT_TARGET}
+      initialSeason={link.season}
+      initialSeasonType={link.seasonType}
+      initialMode={link.mode}
+      initialOpponent={link.opponent}
+    />
+  );
+}
@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { TeamRoster } from "@/components/TeamRoster";
+import { parseSeason, parseSeasonType } from "@/lib/seasons";
+import { DEFAULT_TARGET, parseTarget } from "@/lib/shots";
+import { getTeam } from "@/lib/teams";
+
+type TeamPageProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ target?: string; season?: string; seasonType?: string }>;
+};
+
+export async function generateMetadata({ params }: TeamPageProps): Promise<Metadata> {
+  const team = getTeam(Number((await params).id));
+  if (!team) return {};
+  return {
+    title: `${team.city} ${team.name}: Shots to Score 30`,
+    description: `How many shots every ${team.city} ${team.name} player needs to score 30 points`,
+  };
+}
+
+export default async function TeamPage({ params, searchParams }: TeamPageProps) {
+  const team = getTeam(Number((await params).id));
+  if (!team) notFound();
+
+  const { target, season, seasonType } = await searchParams;
+
+  return (
+    <TeamRoster
+      team={team}
+      initialTarget={parseTarget(target) ?? DEFAULT_TARGET}
+      initialSeason={parseSeason(season) ?? undefined}
+      initialSeasonType={parseSeasonType(seasonType) ?? undefined}
+    />
+  );
+}
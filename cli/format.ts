@@ -0,0 +1,39 @@
+/**
+ * CLI output: aligned text tables for people, JSON and CSV for scripts
+ */
+
+import { toCsv } from "../lib/export";
+
+export type OutputFormat = "table" | "json" | "csv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["table", "json", "csv"];
+
+// How a command's rows are printed: `fields` for CSV, the labelled `columns` for tables
+export type View<T> = {
+  fields: Array<keyof T & string>;
+  columns: Array<{ key: keyof T & string; label: string }>;
+};
+
+/** Columns padded to their widest cell; numbers right-aligned, missing values as "-" */
+function table<T>(rows: T[], columns: View<T>["columns"]): string {
+  const cells = rows.map((row) => columns.map(({ key }) => (row[key] === null || row[key] === "" ? "-" : String(row[key]))));
+  const widths = columns.map(({ label }, index) => Math.max(label.length, ...cells.map((line) => line[index].length)));
+  const numeric = columns.map(({ key }) => rows.length > 0 && rows.every((row) => typeof row[key] === "number" || row[key] === null));
+
+  const line = (values: string[]) =>
+    values
+      .map((value, index) => (numeric[index] ? value.padStart(widths[index]) : value.padEnd(widths[index])))
+      .join("  ")
+      .trimEnd();
+
+  return `${[line(columns.map(({ label }) => label)), ...cells.map(line)].join("\n")}\n`;
+}
+
+/**
+ * Render `rows` in the chosen format, ending with a newline
+ */
+export function formatRows<T>(rows: T[], view: View<T>, format: OutputFormat): string {
+  if (format === "json") return `${JSON.stringify(rows, null, 2)}\n`;
+  if (format === "csv") return toCsv(rows, view.fields);
+  return table(rows, view.columns);
+}
@@ -0,0 +1,296 @@
+/**
+ * Shots-to-target from the terminal
+ * Subcommands search, calc, compare and leaderboard, built on lib/nba.ts, so NBA_STATS_PROXY_URL
+ * and the other NBA_* settings work as they do in the app. Exit codes tell scripts what failed.
+ */
+
+import { parseArgs } from "node:util";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "../lib/concurrency";
+import { EXPORT_COLUMNS, leaderboardExportRow, statsExportRow, type ExportRow } from "../lib/export";
+import { buildLeaderboard, parseLeaderboardQuery } from "../lib/leaderboard";
+import {
+  ACTIVE_FILTERS,
+  fetchLeaguePlayerStats,
+  fetchPlayerSeasonAverages,
+  searchPlayers,
+  type NbaError,
+  type NbaErrorKind,
+  type PlayerSearchResult,
+} from "../lib/nba";
+import { getCurrentSeason, parseSeasonOptions } from "../lib/seasons";
+import { parseTargetOption } from "../lib/shots";
+import { TEAMS } from "../lib/teams";
+import { formatRows, OUTPUT_FORMATS, type View } from "./format";
+
+export const EXIT_CODES = {
+  ok: 0,
+  error: 1, // Unexpected failure
+  usage: 2, // Bad command, option or value
+  notFound: 3, // No player matches, or no games in the season
+  upstreamBlocked: 4, // NBA.com or the proxy refused or failed the request
+  upstreamTimeout: 5,
+  schemaChanged: 6, // NBA.com changed a response format
+} as const;
+
+const NBA_ERROR_EXIT_CODES: Record<NbaErrorKind, number> = {
+  InvalidInput: EXIT_CODES.usage,
+  NoSeasonData: EXIT_CODES.notFound,
+  UpstreamBlocked: EXIT_CODES.upstreamBlocked,
+  UpstreamTimeout: EXIT_CODES.upstreamTimeout,
+  SchemaChanged: EXIT_CODES.schemaChanged,
+};
+
+export const USAGE = `Usage: shots <command> [options]
+
+Commands:
+  search <name>                  Find players (--active all|current|retired, default current)
+  calc <name|id>                 Shots a player needs to reach the target
+  compare <name|id> <name|id>... Several players side by side, fewest shots first
+  leaderboard                    Every player in the league, fewest shots first
+
+Options:
+  -t, --target <points>          Points to score (default 30)
+  -s, --season <season>          e.g. 2024-25 (default: current season)
+      --season-type <type>       Regular Season, Playoffs or PlayIn
+  -f, --format <format>          table, json or csv (default table)
+  -n, --limit <count>            Rows for search and leaderboard (default 25)
+      --min-games <games>        leaderboard: minimum games played
+      --min-minutes <minutes>    leaderboard: minimum minutes per game
+      --team <abbr|id>           leaderboard: one team, e.g. DEN
+      --position <G|F|C>         leaderboard: one position
+      --sort <column>            leaderboard: shots, pts, fga, pointsPerShot, gp or min
+      --order <asc|desc>         leaderboard: sort direction
+  -h, --help                     Show this help
+
+Names with spaces need quotes in compare: shots compare "lebron james" jokic
+
+Exit codes: 0 ok, 1 unexpected error, 2 usage, 3 player or season not found,
+4 NBA.com/proxy blocked or failed, 5 NBA.com timed out, 6 NBA.com response changed`;
+
+export type CliOutput = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+type Options = ReturnType<typeof parse>["values"];
+
+// Thrown by the commands and turned into a message and exit code by run()
+class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number,
+  ) {
+    super(message);
+  }
+}
+
+function nbaFailure(error: NbaError): CliError {
+  return new CliError(error.message, NBA_ERROR_EXIT_CODES[error.kind]);
+}
+
+const PLAYER_VIEW: View<PlayerSearchResult> = {
+  fields: ["id", "first_name", "last_name", "team_abbreviation", "from_year", "to_year"],
+  columns: [
+    { key: "id", label: "ID" },
+    { key: "display_name", label: "PLAYER" },
+    { key: "team_abbreviation", label: "TEAM" },
+    { key: "from_year", label: "FROM" },
+    { key: "to_year", label: "TO" },
+  ],
+};
+
+const SHOTS_VIEW: View<ExportRow> = {
+  fields: EXPORT_COLUMNS,
+  columns: [
+    { key: "player_id", label: "ID" },
+    { key: "player_name", label: "PLAYER" },
+    { key: "team", label: "TEAM" },
+    { key: "season", label: "SEASON" },
+    { key: "pts", label: "PTS" },
+    { key: "fga", label: "FGA" },
+    { key: "points_per_shot", label: "PTS/SHOT" },
+    { key: "shots", label: "SHOTS" },
+    { key: "error", label: "ERROR" },
+  ],
+};
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      target: { type: "string", short: "t" },
+      season: { type: "string", short: "s" },
+      "season-type": { type: "string" },
+      format: { type: "string", short: "f", default: "table" },
+      limit: { type: "string", short: "n", default: "25" },
+      active: { type: "string", default: "current" },
+      "min-games": { type: "string" },
+      "min-minutes": { type: "string" },
+      team: { type: "string" },
+      position: { type: "string" },
+      sort: { type: "string" },
+      order: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+/** The API's query params for the shared options, so the routes' parsers validate them */
+function toQuery(options: Options, extra: Record<string, string | undefined> = {}): URLSearchParams {
+  const query = new URLSearchParams();
+  const values = { target: options.target, season: options.season, seasonType: options["season-type"], ...extra };
+  for (const [name, value] of Object.entries(values)) {
+    if (value !== undefined) query.set(name, value);
+  }
+  return query;
+}
+
+function parseLimit(options: Options): number {
+  const limit = Number(options.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    throw new CliError("Invalid --limit (expected a whole number from 1 to 100)", EXIT_CODES.usage);
+  }
+  return limit;
+}
+
+/**
+ * An NBA player ID as given, or the best match for a name
+ */
+async function resolvePlayer(nameOrId: string, output: CliOutput): Promise<number> {
+  if (/^\d+$/.test(nameOrId)) return Number(nameOrId);
+
+  const result = await searchPlayers(nameOrId, { active: "all", perPage: 1 });
+  if (result.error !== undefined) throw nbaFailure(result.error);
+
+  const [player] = result.data.players;
+  if (!player) throw new CliError(`No player matches "${nameOrId}"`, EXIT_CODES.notFound);
+  if (result.data.total > 1) output.stderr(`Using ${player.display_name} (${player.id})\n`);
+  return player.id;
+}
+
+async function search(positionals: string[], options: Options): Promise<{ rows: PlayerSearchResult[] }> {
+  const query = positionals.join(" ").trim();
+  if (!query) throw new CliError("search needs a name", EXIT_CODES.usage);
+
+  const active = ACTIVE_FILTERS.find((filter) => filter === options.active);
+  if (!active) throw new CliError("Invalid --active (expected all, current or retired)", EXIT_CODES.usage);
+
+  const result = await searchPlayers(query, { active, perPage: parseLimit(options) });
+  if (result.error !== undefined) throw nbaFailure(result.error);
+  if (result.data.players.length === 0) throw new CliError(`No player matches "${query}"`, EXIT_CODES.notFound);
+  return { rows: result.data.players };
+}
+
+/**
+ * Rows for each player, fewest shots first (players without numbers last). The exit code is
+ * that of the first player that failed, so scripts notice partial results.
+ */
+async function shots(players: string[], options: Options, output: CliOutput): Promise<{ rows: ExportRow[]; exitCode: number }> {
+  const { target, error: targetError } = parseTargetOption(toQuery(options));
+  if (targetError !== undefined) throw new CliError(targetError, EXIT_CODES.usage);
+  const { options: seasonOptions, error } = parseSeasonOptions(toQuery(options));
+  if (error !== undefined) throw new CliError(error, EXIT_CODES.usage);
+
+  const context = {
+    target,
+    season: seasonOptions.season ?? getCurrentSeason(),
+    seasonType: seasonOptions.seasonType ?? "Regular Season",
+  };
+  const ids = [...new Set(await mapWithConcurrency(players, DEFAULT_CONCURRENCY, (player) => resolvePlayer(player, output)))];
+  const results = await mapWithConcurrency(ids, DEFAULT_CONCURRENCY, (id) => fetchPlayerSeasonAverages(id, seasonOptions));
+
+  const failure = results.find((result) => result.error !== undefined)?.error;
+  if (failure && results.length === 1) throw nbaFailure(failure);
+
+  const rows = results
+    .map((result, index) => statsExportRow(ids[index], result, context))
+    .sort((a, b) => (a.shots ?? Infinity) - (b.shots ?? Infinity));
+  return { rows, exitCode: failure ? NBA_ERROR_EXIT_CODES[failure.kind] : EXIT_CODES.ok };
+}
+
+async function leaderboard(options: Options): Promise<{ rows: ExportRow[] }> {
+  const team = options.team && TEAMS.find(({ abbreviation }) => abbreviation === options.team?.toUpperCase());
+  const { filters, options: leagueOptions, error } = parseLeaderboardQuery(
+    toQuery(options, {
+      minGames: options["min-games"],
+      minMinutes: options["min-minutes"],
+      team: team ? String(team.id) : options.team,
+      position: options.position,
+      sort: options.sort,
+      order: options.order,
+      per_page: String(parseLimit(options)),
+    }),
+  );
+  if (error !== undefined) throw new CliError(error, EXIT_CODES.usage);
+
+  const result = await fetchLeaguePlayerStats(leagueOptions);
+  if (result.error !== undefined) throw nbaFailure(result.error);
+
+  const context = {
+    target: filters.target,
+    season: leagueOptions.season ?? getCurrentSeason(),
+    seasonType: leagueOptions.seasonType ?? "Regular Season",
+  };
+  return { rows: buildLeaderboard(result.data, filters).entries.map((entry) => leaderboardExportRow(entry, context)) };
+}
+
+/**
+ * Run the CLI with `argv` (without the node and script paths); resolves to the exit code
+ */
+export async function run(
+  argv: string[],
+  output: CliOutput = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  },
+): Promise<number> {
+  try {
+    let parsed: ReturnType<typeof parse>;
+    try {
+      parsed = parse(argv);
+    } catch (error) {
+      throw new CliError(error instanceof Error ? error.message : String(error), EXIT_CODES.usage);
+    }
+
+    const { values: options, positionals } = parsed;
+    const [command, ...args] = positionals;
+    if (options.help || !command) {
+      (options.help ? output.stdout : output.stderr)(`${USAGE}\n`);
+      return options.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+    }
+
+    const format = OUTPUT_FORMATS.find((value) => value === options.format);
+    if (!format) throw new CliError("Invalid --format (expected table, json or csv)", EXIT_CODES.usage);
+
+    switch (command) {
+      case "search": {
+        const { rows } = await search(args, options);
+        output.stdout(formatRows(rows, PLAYER_VIEW, format));
+        return EXIT_CODES.ok;
+      }
+      case "calc":
+      case "compare": {
+        if (args.length === 0) throw new CliError(`${command} needs a player name or ID`, EXIT_CODES.usage);
+        // calc takes one player, so its name may be given without quotes
+        const { rows, exitCode } = await shots(command === "calc" ? [args.join(" ")] : args, options, output);
+        output.stdout(formatRows(rows, SHOTS_VIEW, format));
+        return exitCode;
+      }
+      case "leaderboard": {
+        const { rows } = await leaderboard(options);
+        output.stdout(formatRows(rows, SHOTS_VIEW, format));
+        return EXIT_CODES.ok;
+      }
+      default:
+        throw new CliError(`Unknown command "${command}"\n\n${USAGE}`, EXIT_CODES.usage);
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      output.stderr(`shots: ${error.message}\n`);
+      return error.exitCode;
+    }
+    output.stderr(`shots: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_CODES.error;
+  }
+}
@@ -0,0 +1,14 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * CLI entry point, e.g. `npm run cli -- calc jokic --target 40`
+ * See cli/run.ts for the commands and exit codes.
+ */
+
+import { run } from "./run";
+
+// stdout is for results; NBA client warnings and errors still reach stderr
+process.env.LOG_LEVEL ??= "warn";
+
+run(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
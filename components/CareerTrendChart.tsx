@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { calculateShotsToTarget } from "@/lib/shots";
+
+type CareerSeason = {
+  season: string;
+  season_type: "Regular Season" | "Playoffs";
+  team: string;
+  gp: number;
+  pts: number;
+  fga: number;
+};
+
+type CareerTrendChartProps = {
+  playerId: number;
+  target: number;
+};
+
+const SERIES = [
+  { seasonType: "Regular Season", label: "Regular season", color: "#2563eb" },
+  { seasonType: "Playoffs", label: "Playoffs", color: "#f59e0b" },
+] as const;
+
+// SVG viewBox size; the chart scales to the card width
+const WIDTH = 320;
+const HEIGHT = 140;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 28 };
+
+export function CareerTrendChart({ playerId, target }: CareerTrendChartProps) {
+  // Results are tagged with the player they answer, so a stale response never shows as current
+  const [response, setResponse] = useState<{
+    playerId: number;
+    seasons: CareerSeason[] | null;
+    error: string | null;
+  } | null>(null);
+  const loading = response?.playerId !== playerId;
+  const seasons = loading ? null : response.seasons;
+  const error = loading ? null : response.error;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/players/${playerId}/career`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to fetch career stats");
+        }
+        const data = await res.json();
+        if (!cancelled) {
+          setResponse({ playerId, seasons: data.data?.seasons ?? [], error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching career stats:", err);
+        if (!cancelled) {
+          setResponse({ playerId, seasons: null, error: "Career stats unavailable right now." });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  if (loading) {
+    return <p className="text-center text-xs text-slate-500">Loading career...</p>;
+  }
+
+  if (error) {
+    return <p className="text-center text-xs text-slate-500">{error}</p>;
+  }
+
+  const points = (seasons ?? [])
+    .map((season) => ({
+      ...season,
+      shots: calculateShotsToTarget(season.pts, season.fga, target)?.shots ?? null,
+    }))
+    .filter((season): season is typeof season & { shots: number } => season.shots !== null);
+
+  if (points.length === 0) {
+    return <p className="text-center text-xs text-slate-500">No career data.</p>;
+  }
+
+  const seasonLabels = [...new Set(points.map((point) => point.season))].sort();
+  const minShots = Math.floor(Math.min(...points.map((point) => point.shots)));
+  const maxShots = Math.ceil(Math.max(...points.map((point) => point.shots)));
+  const shotRange = Math.max(1, maxShots - minShots);
+
+  const x = (season: string) => {
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const index = seasonLabels.indexOf(season);
+    return PADDING.left + (seasonLabels.length === 1 ? plotWidth / 2 : (index / (seasonLabels.length - 1)) * plotWidth);
+  };
+  const y = (shots: number) =>
+    PADDING.top + ((shots - minShots) / shotRange) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={`Shots to score ${target} by season`}>
+        {/* Fewer shots is better, so the y axis runs low-to-high from the top */}
+        {[minShots, maxShots].map((value) => (
+          <g key={value}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} stroke="#e2e8f0" />
+            <text x={PADDING.left - 4} y={y(value) + 3} textAnchor="end" fontSize="8" fill="#94a3b8">
+              {value}
+            </text>
+          </g>
+        ))}
+        {[seasonLabels[0], seasonLabels[seasonLabels.length - 1]].map((season, i) => (
+          <text
+            key={`${season}-${i}`}
+            x={x(season)}
+            y={HEIGHT - 6}
+            textAnchor={i === 0 ? "start" : "end"}
+            fontSize="8"
+            fill="#94a3b8"
+          >
+            {season}
+          </text>
+        ))}
+        {SERIES.map(({ seasonType, color }) => {
+          const series = points.filter((point) => point.season_type === seasonType);
+          return (
+            <g key={seasonType}>
+              <polyline
+                points={series.map((point) => `${x(point.season)},${y(point.shots)}`).join(" ")}
+                fill="none"
+                stroke={color}
+                strokeWidth="1.5"
+              />
+              {series.map((point) => (
+                <circle key={point.season} cx={x(point.season)} cy={y(point.shots)} r="2.5" fill={color}>
+                  <title>
+                    {`${point.season} ${point.team} (${point.gp} GP): ${point.shots} shots, ${point.pts} PPG, ${point.fga} FGA`}
+                  </title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="mt-2 flex justify-center gap-4 text-[10px] text-slate-500">
+        {SERIES.map(({ seasonType, label, color }) => (
+          <span key={seasonType} className="flex items-center gap-1">
+            <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
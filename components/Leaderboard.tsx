@@ -0,0 +1,294 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { DEFAULT_PER_PAGE, type LeaderboardSort } from "@/lib/leaderboard";
+import { calculatorPath } from "@/lib/links";
+import { getRecentSeasons, SEASON_TYPES, type SeasonType } from "@/lib/seasons";
+import { DEFAULT_TARGET, TARGET_PRESETS } from "@/lib/shots";
+import { TEAMS } from "@/lib/teams";
+
+type LeaderboardEntry = {
+  rank: number;
+  player_id: number;
+  player_name: string;
+  team_abbreviation: string;
+  gp: number;
+  min: number;
+  pts: number;
+  fga: number;
+  pointsPerShot: number;
+  shots: number;
+};
+
+type LeaderboardMeta = {
+  total_pages: number;
+  current_page: number;
+  next_page: number | null;
+  total_count: number;
+};
+
+const SEASON_TYPE_LABELS: Record<SeasonType, string> = {
+  "Regular Season": "Regular Season",
+  Playoffs: "Playoffs",
+  PlayIn: "Play-In",
+};
+
+const SEASON_OPTIONS = getRecentSeasons(15);
+
+const COLUMNS: Array<{ sort: LeaderboardSort; label: string }> = [
+  { sort: "shots", label: "Shots" },
+  { sort: "pts", label: "PPG" },
+  { sort: "fga", label: "FGA" },
+  { sort: "pointsPerShot", label: "Pts/shot" },
+  { sort: "gp", label: "GP" },
+  { sort: "min", label: "MIN" },
+];
+
+const selectClassName =
+  "rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+
+export function Leaderboard() {
+  const [target, setTarget] = useState(DEFAULT_TARGET);
+  const [season, setSeason] = useState(SEASON_OPTIONS[0]);
+  const [seasonType, setSeasonType] = useState<SeasonType>("Regular Season");
+  const [minGames, setMinGames] = useState(20);
+  const [minMinutes, setMinMinutes] = useState(15);
+  const [team, setTeam] = useState(0);
+  const [position, setPosition] = useState("");
+  const [sort, setSort] = useState<LeaderboardSort>("shots");
+  const [order, setOrder] = useState<"asc" | "desc">("asc");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({
+    target: String(target),
+    season,
+    seasonType,
+    minGames: String(minGames),
+    minMinutes: String(minMinutes),
+    team: String(team),
+    sort,
+    order,
+    page: String(page),
+    per_page: String(DEFAULT_PER_PAGE),
+  });
+  if (position) {
+    params.set("position", position);
+  }
+  const requestKey = params.toString();
+
+  // Same filters, every page
+  const exportParams = new URLSearchParams(params);
+  exportParams.delete("page");
+  exportParams.delete("per_page");
+
+  // Results are tagged with the request they answer, so a stale response never shows as current
+  const [response, setResponse] = useState<{
+    key: string;
+    entries: LeaderboardEntry[];
+    meta: LeaderboardMeta | null;
+    error: string | null;
+  } | null>(null);
+  const loading = response?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/leaderboard?${requestKey}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load leaderboard");
+        }
+        if (!cancelled) {
+          setResponse({ key: requestKey, entries: data.data ?? [], meta: data.meta ?? null, error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching leaderboard:", err);
+        if (!cancelled) {
+          setResponse({ key: requestKey, entries: [], meta: null, error: err.message });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  // Any filter change starts again from the first page
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleSort = (column: LeaderboardSort) => {
+    if (column === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(column);
+      setOrder(column === "shots" ? "asc" : "desc");
+    }
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-5 py-8">
+      <div className="mx-auto w-full max-w-3xl">
+        <div className="mb-6 text-center">
+          <h1 className="text-2xl font-bold text-slate-900 sm:text-3xl">
+            Fewest Shots to Score {target}
+          </h1>
+          <p className="mt-2 text-sm text-slate-600">
+            Every player in the league, ranked by {season} {SEASON_TYPE_LABELS[seasonType]} efficiency
+          </p>
+          <Link href="/" className="mt-2 inline-block text-xs font-medium text-blue-600 hover:underline">
+            ← Back to calculator
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-2">
+          <select value={target} onChange={(e) => withReset(setTarget)(Number(e.target.value))} aria-label="Target points" className={selectClassName}>
+            {TARGET_PRESETS.map((preset) => (
+              <option key={preset} value={preset}>
+                {preset} pts
+              </option>
+            ))}
+          </select>
+          <select value={season} onChange={(e) => withReset(setSeason)(e.target.value)} aria-label="Season" className={selectClassName}>
+            {SEASON_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={seasonType}
+            onChange={(e) => withReset(setSeasonType)(e.target.value as SeasonType)}
+            aria-label="Season type"
+            className={selectClassName}
+          >
+            {SEASON_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {SEASON_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <select value={team} onChange={(e) => withReset(setTeam)(Number(e.target.value))} aria-label="Team" className={selectClassName}>
+            <option value={0}>All teams</option>
+            {TEAMS.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.abbreviation}
+              </option>
+            ))}
+          </select>
+          <select value={position} onChange={(e) => withReset(setPosition)(e.target.value)} aria-label="Position" className={selectClassName}>
+            <option value="">All positions</option>
+            <option value="G">Guards</option>
+            <option value="F">Forwards</option>
+            <option value="C">Centers</option>
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Min GP
+            <input
+              type="number"
+              min={0}
+              value={minGames}
+              onChange={(e) => withReset(setMinGames)(Math.max(0, Number(e.target.value) || 0))}
+              className="w-16 rounded-full border border-slate-300 bg-white px-2 py-1 text-center text-sm text-slate-900"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            Min MPG
+            <input
+              type="number"
+              min={0}
+              value={minMinutes}
+              onChange={(e) => withReset(setMinMinutes)(Math.max(0, Number(e.target.value) || 0))}
+              className="w-16 rounded-full border border-slate-300 bg-white px-2 py-1 text-center text-sm text-slate-900"
+            />
+          </label>
+        </div>
+
+        <div className="overflow-x-auto rounded-3xl border border-slate-200 bg-white p-4 shadow-sm">
+          {loading && <p className="py-8 text-center text-sm text-slate-600">Loading leaderboard...</p>}
+          {!loading && response.error && (
+            <p className="py-8 text-center text-sm font-medium text-red-800">{response.error}</p>
+          )}
+          {!loading && !response.error && response.entries.length === 0 && (
+            <p className="py-8 text-center text-sm text-slate-600">No players match these filters.</p>
+          )}
+          {!loading && response.entries.length > 0 && (
+            <table className="w-full text-left text-sm text-slate-700">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="py-2 pr-2 font-medium">#</th>
+                  <th className="py-2 pr-2 font-medium">Player</th>
+                  <th className="py-2 pr-2 font-medium">Team</th>
+                  {COLUMNS.map((column) => (
+                    <th key={column.sort} className="py-2 pl-2 text-right font-medium">
+                      <button onClick={() => handleSort(column.sort)} className="hover:text-slate-900">
+                        {column.label}
+                        {sort === column.sort && (order === "asc" ? " ↑" : " ↓")}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {response.entries.map((entry) => (
+                  <tr key={entry.player_id} className="border-t border-slate-100">
+                    <td className="py-1.5 pr-2 text-slate-500">{entry.rank}</td>
+                    <td className="py-1.5 pr-2 font-medium text-slate-900">
+                      <Link href={calculatorPath({ playerId: entry.player_id, target, season, seasonType })} className="hover:text-blue-600">
+                        {entry.player_name}
+                      </Link>
+                    </td>
+                    <td className="py-1.5 pr-2 text-slate-500">{entry.team_abbreviation}</td>
+                    <td className="py-1.5 pl-2 text-right font-semibold text-slate-900">{entry.shots}</td>
+                    <td className="py-1.5 pl-2 text-right">{entry.pts}</td>
+                    <td className="py-1.5 pl-2 text-right">{entry.fga}</td>
+                    <td className="py-1.5 pl-2 text-right">{entry.pointsPerShot.toFixed(2)}</td>
+                    <td className="py-1.5 pl-2 text-right">{entry.gp}</td>
+                    <td className="py-1.5 pl-2 text-right">{entry.min}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {!loading && response.meta && response.meta.total_pages > 1 && (
+          <div className="mt-4 flex items-center justify-center gap-3 text-sm">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="rounded-lg bg-white px-3 py-1.5 text-slate-700 ring-1 ring-slate-300 hover:bg-slate-100 disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <span className="text-slate-600">
+              Page {response.meta.current_page} of {response.meta.total_pages} ({response.meta.total_count} players)
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={!response.meta.next_page}
+              className="rounded-lg bg-white px-3 py-1.5 text-slate-700 ring-1 ring-slate-300 hover:bg-slate-100 disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        )}
+        {!loading && response.entries.length > 0 && (
+          <a
+            href={`/api/v1/export?${exportParams}`}
+            download
+            className="mt-4 block text-center text-xs font-medium text-blue-600 hover:underline"
+          >
+            Download CSV
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SeasonType } from "@/lib/seasons";
+
+type Player = {
+  id: number;
+  first_name: string;
+  last_name: string;
+};
+
+type ComparisonEntry = {
+  rank: number;
+  player: Player;
+  pts: number;
+  fga: number;
+  season: string;
+  pointsPerShot: number;
+  shots: number;
+};
+
+type PlayerComparisonProps = {
+  players: Player[];
+  target: number;
+  season: string | null;
+  seasonType: SeasonType;
+  onRemove: (playerId: number) => void;
+};
+
+export const MAX_COMPARISON_PLAYERS = 6;
+
+export function PlayerComparison({ players, target, season, seasonType, onRemove }: PlayerComparisonProps) {
+  const params = new URLSearchParams({
+    ids: players.map((player) => player.id).join(","),
+    target: String(target),
+    seasonType,
+  });
+  if (season) {
+    params.set("season", season);
+  }
+  const requestKey = params.toString();
+
+  // Results are tagged with the request they answer, so a stale response never shows as current
+  const [response, setResponse] = useState<{
+    key: string;
+    entries: ComparisonEntry[] | null;
+    error: string | null;
+  } | null>(null);
+  const loading = response?.key !== requestKey;
+  const entries = loading ? null : response.entries;
+  const error = loading ? null : response.error;
+
+  useEffect(() => {
+    if (players.length === 0) return;
+    let cancelled = false;
+    fetch(`/api/players/stats?${requestKey}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to fetch comparison stats");
+        }
+        const data = await res.json();
+        if (!cancelled) {
+          setResponse({ key: requestKey, entries: data.data ?? [], error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching comparison stats:", err);
+        if (!cancelled) {
+          setResponse({ key: requestKey, entries: null, error: "Comparison unavailable right now." });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [players.length, requestKey]);
+
+  if (players.length === 0) {
+    return null;
+  }
+
+  // Players without stats for this season still get a row so they can be removed
+  const missing = players.filter((player) => !entries?.some((entry) => entry.player.id === player.id));
+
+  return (
+    <div>
+      {loading && <p className="text-center text-xs text-slate-500">Loading comparison...</p>}
+      {error && <p className="text-center text-xs text-slate-500">{error}</p>}
+      {entries && (
+        <table className="w-full text-left text-xs text-slate-700">
+          <thead>
+            <tr className="text-slate-500">
+              <th className="py-1 font-medium">#</th>
+              <th className="py-1 font-medium">Player</th>
+              <th className="py-1 text-right font-medium">Shots</th>
+              <th className="py-1 text-right font-medium">PPG</th>
+              <th className="py-1 text-right font-medium">FGA</th>
+              <th className="py-1 text-right font-medium">Pts/shot</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => (
+              <tr key={entry.player.id} className="border-t border-slate-100">
+                <td className="py-1.5">{entry.rank}</td>
+                <td className="py-1.5 font-medium text-slate-900">
+                  {entry.player.first_name} {entry.player.last_name}
+                </td>
+                <td className="py-1.5 text-right font-semibold text-slate-900">{entry.shots}</td>
+                <td className="py-1.5 text-right">{entry.pts}</td>
+                <td className="py-1.5 text-right">{entry.fga}</td>
+                <td className="py-1.5 text-right">{entry.pointsPerShot.toFixed(2)}</td>
+                <td className="py-1.5 text-right">
+                  <button
+                    onClick={() => onRemove(entry.player.id)}
+                    aria-label={`Remove ${entry.player.first_name} ${entry.player.last_name}`}
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {missing.map((player) => (
+              <tr key={player.id} className="border-t border-slate-100 text-slate-400">
+                <td className="py-1.5">–</td>
+                <td className="py-1.5">
+                  {player.first_name} {player.last_name}
+                </td>
+                <td colSpan={4} className="py-1.5 text-right">
+                  No data
+                </td>
+                <td className="py-1.5 text-right">
+                  <button
+                    onClick={() => onRemove(player.id)}
+                    aria-label={`Remove ${player.first_name} ${player.last_name}`}
+                    className="hover:text-red-600"
+                  >
+                    ×
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {entries && entries.length > 0 && (
+        <a
+          href={`/api/v1/export?${requestKey}`}
+          download
+          className="mt-3 block text-center text-xs font-medium text-blue-600 hover:underline"
+        >
+          Download CSV
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { SeasonType } from "@/lib/seasons";
+import {
+  parseSavedPlayers,
+  serializeSavedPlayers,
+  type SavedPlayer,
+  type SavedPlayers as SavedPlayerLists,
+} from "@/lib/savedPlayers";
+
+// Row from /api/v1/export?format=json
+type ExportRow = {
+  player_id: number;
+  shots: number | null;
+  error: string;
+};
+
+type SavedPlayersProps = {
+  saved: SavedPlayerLists;
+  target: number;
+  season: string | null;
+  seasonType: SeasonType;
+  onSelect: (player: SavedPlayer) => void;
+  onRemoveFavorite: (playerId: number) => void;
+  onClearRecents: () => void;
+  onImport: (saved: SavedPlayerLists) => void;
+};
+
+/**
+ * Quick-pick chips for favorite and recently viewed players, with refresh, export and import
+ */
+export function SavedPlayers({
+  saved,
+  target,
+  season,
+  seasonType,
+  onSelect,
+  onRemoveFavorite,
+  onClearRecents,
+  onImport,
+}: SavedPlayersProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const params = new URLSearchParams({
+    format: "json",
+    ids: saved.favorites.map((player) => player.id).join(","),
+    target: String(target),
+    seasonType,
+  });
+  if (season) {
+    params.set("season", season);
+  }
+  const requestKey = params.toString();
+
+  // Refreshed shots are tagged with the request they answer, so changing the target or a favorite hides stale numbers
+  const [refresh, setRefresh] = useState<{
+    key: string;
+    rows: ExportRow[] | null;
+    error: string | null;
+  } | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const refreshed = refresh?.key === requestKey ? refresh : null;
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    // A refresh must reach the server, not the cached response from the last refresh
+    fetch(`/api/v1/export?${requestKey}`, { cache: "no-store" })
+      .then(async (response) => {
+        const body = await response.json().catch(() => ({}));
+        setRefresh(
+          response.ok
+            ? { key: requestKey, rows: body.data ?? [], error: null }
+            : { key: requestKey, rows: null, error: body.error?.message || "Refresh failed. Try again later." },
+        );
+      })
+      .catch((err) => {
+        console.error("Error refreshing favorites:", err);
+        setRefresh({ key: requestKey, rows: null, error: "Refresh failed. Try again later." });
+      })
+      .finally(() => {
+        setRefreshing(false);
+      });
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeSavedPlayers(saved)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "shots-to-30-players.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    let result: ReturnType<typeof parseSavedPlayers>;
+    try {
+      result = parseSavedPlayers(JSON.parse(await file.text()));
+    } catch {
+      result = { error: "Not a JSON file" };
+    }
+    if (result.error !== undefined) {
+      setImportError(result.error);
+      return;
+    }
+    setImportError(null);
+    onImport(result.saved);
+  };
+
+  const recents = saved.recents.filter((player) => !saved.favorites.some(({ id }) => id === player.id));
+  const chipClass = "rounded-full bg-white px-3 py-1 text-xs font-medium text-slate-700 ring-1 ring-slate-300 hover:bg-blue-50";
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+      {saved.favorites.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="font-medium text-slate-500">Favorites</span>
+          {saved.favorites.map((player) => {
+            const row = refreshed?.rows?.find((entry) => entry.player_id === player.id);
+            return (
+              <span key={player.id} className="inline-flex items-center rounded-full bg-amber-50 ring-1 ring-amber-200">
+                <button onClick={() => onSelect(player)} className="py-1 pl-3 pr-1 font-medium text-slate-800 hover:text-blue-700">
+                  ★ {player.first_name} {player.last_name}
+                  {row && (
+                    <span className="ml-1 text-slate-500" title={row.error || undefined}>
+                      · {row.shots ?? "–"}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => onRemoveFavorite(player.id)}
+                  aria-label={`Remove ${player.first_name} ${player.last_name} from favorites`}
+                  className="pl-1 pr-2.5 text-slate-400 hover:text-red-600"
+                >
+                  ×
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+      {recents.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="font-medium text-slate-500">Recent</span>
+          {recents.map((player) => (
+            <button key={player.id} onClick={() => onSelect(player)} className={chipClass}>
+              {player.first_name} {player.last_name}
+            </button>
+          ))}
+          <button onClick={onClearRecents} className="text-slate-400 hover:text-slate-600">
+            Clear
+          </button>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center justify-end gap-3 text-slate-500">
+        {saved.favorites.length > 0 && (
+          <button onClick={handleRefresh} disabled={refreshing} className="font-medium text-blue-600 hover:underline disabled:opacity-50">
+            {refreshing ? "Refreshing..." : `Refresh all (shots to ${target})`}
+          </button>
+        )}
+        {(saved.favorites.length > 0 || saved.recents.length > 0) && (
+          <button onClick={handleExport} className="hover:text-slate-700 hover:underline">
+            Export
+          </button>
+        )}
+        <button onClick={() => fileInputRef.current?.click()} className="hover:text-slate-700 hover:underline">
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          aria-label="Import saved players"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = ""; // Allow importing the same file again
+          }}
+        />
+      </div>
+      {refreshed?.error && <p className="text-right text-red-700">{refreshed.error}</p>}
+      {importError && <p className="text-right text-red-700">{importError}</p>}
+    </div>
+  );
+}
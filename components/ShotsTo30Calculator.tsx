@@ -1,22 +1,192 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  calculateShotsToTarget,
+  calculateTrueShooting,
+  DEFAULT_TARGET,
+  MAX_TARGET,
+  MIN_TARGET,
+  parseTarget,
+  TARGET_PRESETS,
+  type CalculationMode,
+  type TrueShootingCalculation,
+} from "@/lib/shots";
+import { CareerTrendChart } from "@/components/CareerTrendChart";
+import { MAX_COMPARISON_PLAYERS, PlayerComparison } from "@/components/PlayerComparison";
+import { SavedPlayers } from "@/components/SavedPlayers";
+import { SimulationChart } from "@/components/SimulationChart";
+import { SplitsTable } from "@/components/SplitsTable";
+import { calculatorPath, parseCalculatorUrl } from "@/lib/links";
+import { projectMatchup } from "@/lib/matchup";
+import {
+  addRecent,
+  EMPTY_SAVED_PLAYERS,
+  isFavorite,
+  loadSavedPlayers,
+  MAX_FAVORITES,
+  mergeSavedPlayers,
+  storeSavedPlayers,
+  toggleFavorite,
+  type SavedPlayer,
+  type SavedPlayers as SavedPlayerLists,
+} from "@/lib/savedPlayers";
+import { getRecentSeasons, SEASON_TYPES, type SeasonType } from "@/lib/seasons";
+import { getTeam, TEAMS } from "@/lib/teams";
 
 type Player = {
   id: number;
   first_name: string;
   last_name: string;
+  display_name?: string;
+  highlights?: Array<[number, number]>; // Matched character ranges of display_name, from search
+  team_id?: number;
+  team_abbreviation?: string;
+  team_name?: string;
+  from_year?: number;
+  to_year?: number;
+};
+
+type ActiveFilter = "all" | "current" | "retired";
+
+const ACTIVE_FILTER_LABELS: Record<ActiveFilter, string> = {
+  current: "Current",
+  retired: "Retired",
+  all: "All",
+};
+
+// Keep in step with "Load more": every page must be the same size
+const SEARCH_PER_PAGE = 25;
+
+type PlayerStats = {
+  player: Player;
+  pts: number;
+  fga: number;
+  fgm: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+  ts_pct: number;
+  season: string;
+  season_type: SeasonType;
+  requested_season: string;
 };
 
 type CalculationResult = {
+  playerId: number;
   shots: number;
   playerName: string;
+  teamId: number; // 0 when not on a roster
+  teamName: string;
   pts: number;
   fga: number;
+  trueShooting: TrueShootingCalculation | null;
+  season: string;
+  seasonType: SeasonType;
+  requestedSeason: string;
 } | null;
 
-export function ShotsTo30Calculator() {
-  const [searchQuery, setSearchQuery] = useState("");
+// Head-to-head split and opponent defense from /api/players/[id]/matchup
+type MatchupData = {
+  season: string;
+  baseline: { pts: number; fga: number };
+  split: { gp: number; pts: number; fga: number };
+  defense: { opp_fg_pct: number; league_opp_fg_pct: number } | null;
+};
+
+type ShotsTo30CalculatorProps = {
+  initialPlayerId?: number;
+  initialStats?: PlayerStats; // Server-loaded stats for initialPlayerId, so the result renders without a fetch
+  initialOpponent?: number; // Team ID
+
+  initialTarget?: number;
+  initialSeason?: string;
+  initialSeasonType?: SeasonType;
+  initialMode?: CalculationMode;
+};
+
+const SEASON_TYPE_LABELS: Record<SeasonType, string> = {
+  "Regular Season": "Regular Season",
+  Playoffs: "Playoffs",
+  PlayIn: "Play-In",
+};
+
+const SEASON_OPTIONS = getRecentSeasons(15);
+
+// Error body from the API routes (see nbaErrorBody in lib/nba.ts)
+type ApiError = {
+  error?: string;
+  code?: "UpstreamBlocked" | "UpstreamTimeout" | "NoSeasonData" | "SchemaChanged" | "InvalidInput";
+  season?: string;
+  season_type?: SeasonType;
+};
+
+/**
+ * Message to show for a failed API call, based on its error code
+ */
+function describeApiError(body: ApiError, fallback: string): string {
+  switch (body.code) {
+    case "UpstreamBlocked":
+      return body.error || "NBA.com is blocking requests right now. Please try again later.";
+    case "UpstreamTimeout":
+      return "NBA.com is taking too long to respond. Please try again in a moment.";
+    case "NoSeasonData":
+      return body.error || (body.season
+        ? `No ${SEASON_TYPE_LABELS[body.season_type ?? "Regular Season"]} data for this player in ${body.season}.`
+        : "No season data available for this player.");
+    case "SchemaChanged":
+      return "NBA.com changed its data format, so these stats can't be read right now.";
+    case "InvalidInput":
+      return body.error ? `Invalid request: ${body.error}` : fallback;
+    default:
+      return body.error || fallback;
+  }
+}
+
+/**
+ * Render a player's name with the search match ranges in bold
+ */
+function HighlightedName({ player }: { player: Player }) {
+  const name = player.display_name || `${player.first_name} ${player.last_name}`;
+  if (!player.display_name || !player.highlights?.length) {
+    return <>{name}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of player.highlights) {
+    if (start < cursor) continue;
+    parts.push(name.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-transparent font-semibold text-blue-700">
+        {name.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  }
+  parts.push(name.slice(cursor));
+  return <>{parts}</>;
+}
+
+// Identifies which player/season the loaded stats belong to
+function statsKey(playerId: number, season: string | null, seasonType: SeasonType): string {
+  return `${playerId}|${season ?? ""}|${seasonType}`;
+}
+
+export function ShotsTo30Calculator({
+  initialPlayerId,
+  initialStats,
+  initialTarget = DEFAULT_TARGET,
+  initialSeason,
+  initialSeasonType = "Regular Season",
+  initialMode = "naive",
+  initialOpponent = 0,
+}: ShotsTo30CalculatorProps = {}) {
+  const [searchQuery, setSearchQuery] = useState(
+    initialStats ? `${initialStats.player.first_name} ${initialStats.player.last_name}`.trim() : "",
+  );
   const [searchResults, setSearchResults] = useState<Player[]>([]);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const [searchMeta, setSearchMeta] = useState<{
@@ -25,10 +195,39 @@ export function ShotsTo30Calculator() {
     total_count: number;
   } | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
-  const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
-  const [result, setResult] = useState<CalculationResult>(null);
+  const [activeFilter, setActiveFilter] = useState<ActiveFilter>("current");
+  // A shared link only carries the player ID; the name is filled in once stats load
+  const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(
+    initialStats?.player ?? (initialPlayerId ? { id: initialPlayerId, first_name: "", last_name: "" } : null),
+  );
+  const [target, setTarget] = useState(initialTarget);
+  const [customTarget, setCustomTarget] = useState(
+    TARGET_PRESETS.some((preset) => preset === initialTarget) ? "" : String(initialTarget),
+  );
+  // null = current season (the API falls back to last season if it has no data yet)
+  const [season, setSeason] = useState<string | null>(initialSeason ?? null);
+  const [seasonType, setSeasonType] = useState<SeasonType>(initialSeasonType);
+  const [mode, setMode] = useState<CalculationMode>(initialMode);
+  const [opponent, setOpponent] = useState(initialOpponent); // 0 = no matchup
+  const [stats, setStats] = useState<PlayerStats | null>(initialStats ?? null);
+  const loadedStatsKey = useRef(
+    initialStats && initialPlayerId ? statsKey(initialPlayerId, initialSeason ?? null, initialSeasonType) : null,
+  );
+  const [comparePlayers, setComparePlayers] = useState<Player[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Favorites and recents live in localStorage; null until read after mount, so server and client render the same
+  const [savedPlayers, setSavedPlayers] = useState<SavedPlayerLists | null>(null);
+
+  useEffect(() => {
+    setSavedPlayers(loadSavedPlayers(window.localStorage));
+  }, []);
+
+  useEffect(() => {
+    if (savedPlayers) {
+      storeSavedPlayers(window.localStorage, savedPlayers);
+    }
+  }, [savedPlayers]);
 
   // Search players on query change
   useEffect(() => {
@@ -61,16 +260,16 @@ export function ShotsTo30Calculator() {
     const timeoutId = setTimeout(async () => {
       try {
         const response = await fetch(
-          `/api/players/search?q=${encodeURIComponent(searchQuery)}&per_page=25`,
+          `/api/players/search?q=${encodeURIComponent(searchQuery)}&active=${activeFilter}&per_page=${SEARCH_PER_PAGE}`,
         );
         const data = await response.json().catch(() => ({ data: [] }));
-        console.log("Search response:", data);
         const players = data.data || [];
         setSearchResults(players);
         setSearchMeta(data.meta || null);
         if (!response.ok || data.error) {
-          const msg = data.error || (response.status === 429 ? "Rate limit reached. Please wait a moment." : "Search failed. Try again later.");
-          setError(msg);
+          setError(
+            describeApiError(data, response.status === 429 ? "Rate limit reached. Please wait a moment." : "Search failed. Try again later."),
+          );
         } else {
           setError(null);
         }
@@ -84,14 +283,14 @@ export function ShotsTo30Calculator() {
     }, 800); // Increased debounce to 800ms to reduce API calls
 
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, selectedPlayer]);
+  }, [searchQuery, selectedPlayer, activeFilter]);
 
   const loadMorePlayers = async () => {
     if (!searchMeta?.next_page || !searchQuery.trim()) return;
 
     try {
       const response = await fetch(
-        `/api/players/search?q=${encodeURIComponent(searchQuery)}&page=${searchMeta.next_page}&per_page=50`,
+        `/api/players/search?q=${encodeURIComponent(searchQuery)}&active=${activeFilter}&page=${searchMeta.next_page}&per_page=${SEARCH_PER_PAGE}`,
       );
       if (response.ok) {
         const data = await response.json();
@@ -103,57 +302,228 @@ export function ShotsTo30Calculator() {
     }
   };
 
-  // Calculate when player is selected
+  // Fetch stats when player is selected
+  const selectedPlayerId = selectedPlayer?.id;
   useEffect(() => {
-    if (!selectedPlayer) {
-      setResult(null);
+    if (!selectedPlayerId) {
+      loadedStatsKey.current = null;
+      setStats(null);
       return;
     }
 
+    // Already loaded, e.g. rendered on the server for /player/[id]
+    const key = statsKey(selectedPlayerId, season, seasonType);
+    if (key === loadedStatsKey.current) {
+      return;
+    }
+    loadedStatsKey.current = key;
+
     setLoading(true);
     setError(null);
 
-    fetch(`/api/players/${selectedPlayer.id}/stats`)
+    const params = new URLSearchParams({ seasonType });
+    if (season) {
+      params.set("season", season);
+    }
+
+    // A response for an earlier player or season may finish last; only the current one is applied
+    let cancelled = false;
+    fetch(`/api/players/${selectedPlayerId}/stats?${params}`)
       .then(async (response) => {
+        const body = await response.json().catch(() => ({}));
+        if (cancelled) return;
         if (!response.ok) {
-          throw new Error("Failed to fetch stats");
-        }
-        const data = await response.json();
-        return data.data;
-      })
-      .then((stats) => {
-        if (!stats) {
-          setError("No season data available for this player.");
-          setResult(null);
+          setError(describeApiError(body, "Failed to load player data. Please try again."));
+          setStats(null);
           return;
         }
+        const data: PlayerStats = body.data;
 
-        if (stats.fga === 0 || stats.pts === 0) {
+        if (data.fga === 0 || data.pts === 0) {
           setError("Player has no field goal attempts or points this season.");
-          setResult(null);
+          setStats(null);
           return;
         }
 
-        const pointsPerShot = stats.pts / stats.fga;
-        const shotsTo30 = 30 / pointsPerShot;
-        const roundedShots = Number(shotsTo30.toFixed(1));
-
-        setResult({
-          shots: roundedShots,
-          playerName: `${stats.player.first_name} ${stats.player.last_name}`,
-          pts: stats.pts,
-          fga: stats.fga,
-        });
+        setStats(data);
+        // Opened from a shared link: show the player's name in the search box
+        setSelectedPlayer((prev) =>
+          prev && prev.id === data.player.id && !prev.first_name && !prev.last_name
+            ? data.player
+            : prev,
+        );
+        setSearchQuery((prev) =>
+          prev.trim() ? prev : `${data.player.first_name} ${data.player.last_name}`.trim(),
+        );
       })
       .catch((err) => {
+        // Network failure; API errors are handled above
         console.error("Error fetching player stats:", err);
+        if (cancelled) return;
         setError("Failed to load player data. Please try again.");
-        setResult(null);
+        setStats(null);
       })
       .finally(() => {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      // Not loaded after all, so the same key is fetched again if the effect re-runs
+      if (loadedStatsKey.current === key) {
+        loadedStatsKey.current = null;
+      }
+    };
+  }, [selectedPlayerId, season, seasonType]);
+
+  // Every player whose stats load counts as viewed, including shared links and back/forward
+  const viewedPlayer = stats?.player;
+  const savedPlayersLoaded = savedPlayers !== null;
+  useEffect(() => {
+    if (viewedPlayer && savedPlayersLoaded) {
+      setSavedPlayers((prev) => prev && addRecent(prev, viewedPlayer));
+    }
+  }, [viewedPlayer, savedPlayersLoaded]);
+
+  const result: CalculationResult = useMemo(() => {
+    if (!stats) return null;
+    const calculation = calculateShotsToTarget(stats.pts, stats.fga, target);
+    if (!calculation) return null;
+    return {
+      playerId: stats.player.id,
+      shots: calculation.shots,
+      playerName: `${stats.player.first_name} ${stats.player.last_name}`,
+      teamId: stats.player.team_id ?? 0,
+      teamName: stats.player.team_name || stats.player.team_abbreviation || "",
+      pts: stats.pts,
+      fga: stats.fga,
+      trueShooting: calculateTrueShooting(stats, target),
+      season: stats.season,
+      seasonType: stats.season_type,
+      requestedSeason: stats.requested_season,
+    };
+  }, [stats, target]);
+
+  // Matchup data is tagged with the request it answers, so a stale response never shows as current
+  const matchupUrl = selectedPlayerId && opponent
+    ? `/api/players/${selectedPlayerId}/matchup?${new URLSearchParams({ opponent: String(opponent), seasonType, ...(season && { season }) })}`
+    : null;
+  const [matchupResponse, setMatchupResponse] = useState<{
+    key: string;
+    data: MatchupData | null;
+    error: string | null;
+  } | null>(null);
+  const matchup = matchupUrl && matchupResponse?.key === matchupUrl ? matchupResponse : null;
+
+  useEffect(() => {
+    if (!matchupUrl) return;
+    let cancelled = false;
+    fetch(matchupUrl)
+      .then(async (response) => {
+        const body = await response.json().catch(() => ({}));
+        if (cancelled) return;
+        setMatchupResponse(
+          response.ok
+            ? { key: matchupUrl, data: body.data, error: null }
+            : { key: matchupUrl, data: null, error: describeApiError(body, "Matchup data unavailable.") },
+        );
+      })
+      .catch((err) => {
+        console.error("Error fetching matchup:", err);
+        if (!cancelled) {
+          setMatchupResponse({ key: matchupUrl, data: null, error: "Matchup data unavailable." });
+        }
       });
-  }, [selectedPlayer]);
+    return () => {
+      cancelled = true;
+    };
+  }, [matchupUrl]);
+
+  const projection = useMemo(
+    () => (matchup?.data ? projectMatchup(matchup.data, target) : null),
+    [matchup, target],
+  );
+  const opponentTeam = getTeam(opponent);
+
+  // Keep the calculator state in the URL so results can be shared. Picking another player adds a
+  // history entry (Back returns to the previous one); other changes replace the current entry.
+  const urlPlayerId = useRef(selectedPlayerId);
+  useEffect(() => {
+    const path = calculatorPath({
+      playerId: selectedPlayerId,
+      target,
+      season: season ?? undefined,
+      seasonType,
+      mode,
+      opponent,
+    });
+    if (path === window.location.pathname + window.location.search) {
+      return;
+    }
+    if (selectedPlayerId !== urlPlayerId.current) {
+      window.history.pushState(null, "", path);
+    } else {
+      window.history.replaceState(null, "", path);
+    }
+    urlPlayerId.current = selectedPlayerId;
+  }, [selectedPlayerId, target, season, seasonType, mode, opponent]);
+
+  // Back/forward: restore the state the URL describes
+  useEffect(() => {
+    const handlePopState = () => {
+      const link = parseCalculatorUrl(new URL(window.location.href));
+      const linkTarget = link.target ?? DEFAULT_TARGET;
+      if (link.playerId !== urlPlayerId.current) {
+        // The name is filled in once the player's stats load
+        setSelectedPlayer(link.playerId ? { id: link.playerId, first_name: "", last_name: "" } : null);
+        setSearchQuery("");
+        urlPlayerId.current = link.playerId;
+      }
+      setTarget(linkTarget);
+      setCustomTarget(TARGET_PRESETS.some((preset) => preset === linkTarget) ? "" : String(linkTarget));
+      setSeason(link.season ?? null);
+      setSeasonType(link.seasonType ?? "Regular Season");
+      setMode(link.mode ?? "naive");
+      setOpponent(link.opponent ?? 0);
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const handleCustomTargetChange = (value: string) => {
+    setCustomTarget(value);
+    const parsed = parseTarget(value);
+    if (parsed !== null) {
+      setTarget(parsed);
+    }
+  };
+
+  const handleAddToComparison = () => {
+    if (!stats) return;
+    setComparePlayers((prev) =>
+      prev.some((player) => player.id === stats.player.id) || prev.length >= MAX_COMPARISON_PLAYERS
+        ? prev
+        : [...prev, stats.player],
+    );
+  };
+
+  const handleRemoveFromComparison = (playerId: number) => {
+    setComparePlayers((prev) => prev.filter((player) => player.id !== playerId));
+  };
+
+  const handleToggleFavorite = () => {
+    if (!stats) return;
+    setSavedPlayers((prev) => prev && toggleFavorite(prev, stats.player));
+  };
+
+  const handlePresetSelect = (preset: number) => {
+    setTarget(preset);
+    setCustomTarget("");
+  };
+
+  const handleSavedPlayerSelect = (player: SavedPlayer) => {
+    setError(null);
+    handlePlayerSelect(player);
+  };
 
   const handlePlayerSelect = (player: Player) => {
     setSelectedPlayer(player);
@@ -175,17 +545,18 @@ export function ShotsTo30Calculator() {
       // If there's a query but no results, trigger a search and wait for it
       if (searchQuery.trim()) {
         setSearchLoading(true);
-        fetch(`/api/players/search?q=${encodeURIComponent(searchQuery)}&per_page=50`)
+        fetch(`/api/players/search?q=${encodeURIComponent(searchQuery)}&active=${activeFilter}&per_page=${SEARCH_PER_PAGE}`)
           .then(async (response) => {
+            const data = await response.json().catch(() => ({}));
             if (!response.ok) {
-              throw new Error("Search failed");
+              setError(describeApiError(data, "Failed to search for players. Please try again."));
+              return { data: null };
             }
-            const data = await response.json();
             return data;
           })
               .then((data) => {
-                console.log("Enter key search response:", data);
-                if (data.data && data.data.length > 0) {
+                if (!data.data) return; // Error already shown
+                if (data.data.length > 0) {
                   setSearchMeta(data.meta);
                   handlePlayerSelect(data.data[0]); // select first and close dropdown (no setSearchResults so dropdown doesn't flash)
                 } else {
@@ -209,11 +580,29 @@ export function ShotsTo30Calculator() {
         {/* Header */}
         <div className="mb-8 text-center">
           <h1 className="text-2xl font-bold text-slate-900 sm:text-3xl">
-            How Many Shots to Score 30
+            How Many Shots to Score {target}
           </h1>
           <p className="mt-2 text-sm text-slate-600">
-            Based on current season efficiency
+            Based on {season ?? "current season"} {SEASON_TYPE_LABELS[seasonType]} efficiency
           </p>
+          <Link href="/leaderboard" className="mt-2 inline-block text-xs font-medium text-blue-600 hover:underline">
+            League leaderboard →
+          </Link>
+        </div>
+
+        {/* Active / Retired Filter */}
+        <div className="mb-2 flex justify-end gap-1">
+          {(["current", "retired", "all"] as const).map((filter) => (
+            <button
+              key={filter}
+              onClick={() => setActiveFilter(filter)}
+              className={`rounded-full px-3 py-0.5 text-xs font-medium transition-colors ${
+                activeFilter === filter ? "bg-slate-900 text-white" : "text-slate-500 hover:bg-slate-100"
+              }`}
+            >
+              {ACTIVE_FILTER_LABELS[filter]}
+            </button>
+          ))}
         </div>
 
         {/* Player Selector */}
@@ -243,7 +632,14 @@ export function ShotsTo30Calculator() {
                   onClick={() => handlePlayerSelect(player)}
                   className="w-full px-4 py-3 text-left text-sm text-slate-900 transition-colors hover:bg-blue-50 focus:bg-blue-50 focus:outline-none first:rounded-t-xl"
                 >
-                  {player.first_name} {player.last_name}
+                  <HighlightedName player={player} />
+                  {(player.team_abbreviation || player.from_year) && (
+                    <span className="ml-2 text-xs text-slate-400">
+                      {player.team_abbreviation}
+                      {player.team_abbreviation && player.from_year ? " · " : ""}
+                      {player.from_year && `${player.from_year}–${player.to_year ?? ""}`}
+                    </span>
+                  )}
                 </button>
               ))}
               {searchMeta?.next_page && (
@@ -264,6 +660,107 @@ export function ShotsTo30Calculator() {
                 No players found. Try a different search.
               </div>
             )}
+          {savedPlayers && (
+            <SavedPlayers
+              saved={savedPlayers}
+              target={target}
+              season={season}
+              seasonType={seasonType}
+              onSelect={handleSavedPlayerSelect}
+              onRemoveFavorite={(playerId) =>
+                setSavedPlayers((prev) => prev && { ...prev, favorites: prev.favorites.filter(({ id }) => id !== playerId) })
+              }
+              onClearRecents={() => setSavedPlayers((prev) => prev && { ...prev, recents: [] })}
+              onImport={(imported) => setSavedPlayers((prev) => mergeSavedPlayers(prev ?? EMPTY_SAVED_PLAYERS, imported))}
+            />
+          )}
+        </div>
+
+        {/* Target Selector */}
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-2">
+          {TARGET_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              onClick={() => handlePresetSelect(preset)}
+              className={`rounded-full px-4 py-1.5 text-sm font-medium transition-colors ${
+                target === preset && !customTarget
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-slate-700 ring-1 ring-slate-300 hover:bg-blue-50"
+              }`}
+            >
+              {preset}
+            </button>
+          ))}
+          <input
+            type="number"
+            inputMode="numeric"
+            min={MIN_TARGET}
+            max={MAX_TARGET}
+            value={customTarget}
+            onChange={(e) => handleCustomTargetChange(e.target.value)}
+            placeholder="Custom"
+            aria-label="Custom target points"
+            className="w-24 rounded-full border border-slate-300 bg-white px-3 py-1.5 text-center text-sm text-slate-900 placeholder-slate-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          />
+        </div>
+
+        {/* Season Selector */}
+        <div className="mb-6 flex items-center justify-center gap-2">
+          <select
+            value={season ?? ""}
+            onChange={(e) => setSeason(e.target.value || null)}
+            aria-label="Season"
+            className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            <option value="">Current season</option>
+            {SEASON_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={seasonType}
+            onChange={(e) => setSeasonType(e.target.value as SeasonType)}
+            aria-label="Season type"
+            className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            {SEASON_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {SEASON_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={opponent}
+            onChange={(e) => setOpponent(Number(e.target.value))}
+            aria-label="Opponent"
+            className="rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+          >
+            <option value={0}>Any opponent</option>
+            {TEAMS.map((team) => (
+              <option key={team.id} value={team.id}>
+                vs {team.abbreviation}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Mode Toggle */}
+        <div className="mb-6 flex justify-center">
+          <div className="inline-flex rounded-full bg-white p-1 ring-1 ring-slate-300">
+            {(["naive", "true-shooting"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`rounded-full px-4 py-1 text-xs font-medium transition-colors ${
+                  mode === option ? "bg-slate-900 text-white" : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {option === "naive" ? "Points per shot" : "True shooting"}
+              </button>
+            ))}
+          </div>
         </div>
 
         {/* Result Card */}
@@ -297,25 +794,195 @@ export function ShotsTo30Calculator() {
               <p className="text-sm font-medium text-slate-600">
                 {result.playerName} needs
               </p>
-              <p className="mt-2 text-5xl font-bold text-slate-900 sm:text-6xl">
-                {result.shots}
-              </p>
-              <p className="mt-1 text-lg font-medium text-slate-700">
-                shots to score 30
-              </p>
+              {mode === "true-shooting" && result.trueShooting ? (
+                <>
+                  <p className="mt-2 text-5xl font-bold text-slate-900 sm:text-6xl">
+                    {result.trueShooting.fga}
+                  </p>
+                  <p className="mt-1 text-lg font-medium text-slate-700">
+                    shots + {result.trueShooting.ftTrips} free-throw trips to score {target}
+                  </p>
+                  <table className="mx-auto mt-4 text-xs text-slate-600">
+                    <thead>
+                      <tr className="text-slate-500">
+                        <th className="px-2 text-left font-medium"></th>
+                        <th className="px-2 text-right font-medium">Attempts</th>
+                        <th className="px-2 text-right font-medium">Points</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {([
+                        ["Twos", result.trueShooting.breakdown.twos],
+                        ["Threes", result.trueShooting.breakdown.threes],
+                        ["Free throws", result.trueShooting.breakdown.freeThrows],
+                      ] as const).map(([label, line]) => (
+                        <tr key={label}>
+                          <td className="px-2 text-left">{label}</td>
+                          <td className="px-2 text-right">{line.attempts}</td>
+                          <td className="px-2 text-right">{line.points}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-xs text-slate-500">
+                    {(result.trueShooting.tsPct * 100).toFixed(1)}% TS · {result.shots} shots in points-per-shot mode
+                  </p>
+                </>
+              ) : (
+                <>
+                  <p className="mt-2 text-5xl font-bold text-slate-900 sm:text-6xl">
+                    {result.shots}
+                  </p>
+                  <p className="mt-1 text-lg font-medium text-slate-700">
+                    shots to score {target}
+                  </p>
+                </>
+              )}
               <p className="mt-6 text-xs text-slate-500">
-                Based on current season efficiency
+                Based on {result.season} {SEASON_TYPE_LABELS[result.seasonType]} efficiency
               </p>
+              {result.season !== result.requestedSeason && (
+                <p className="mt-1 text-xs font-medium text-amber-700">
+                  No {result.requestedSeason} data yet, showing {result.season} instead
+                </p>
+              )}
               <p className="mt-1 text-xs text-slate-500">
                 ({result.pts} PPG, {result.fga} FGA)
               </p>
+              {opponentTeam && matchupUrl && (
+                <div className="mx-auto mt-4 max-w-sm rounded-2xl bg-slate-50 px-4 py-3">
+                  {!matchup && <p className="text-xs text-slate-500">Loading matchup...</p>}
+                  {matchup?.error && <p className="text-xs font-medium text-red-700">{matchup.error}</p>}
+                  {matchup?.data && projection && (
+                    <>
+                      <p className="text-sm font-medium text-slate-700">
+                        vs {opponentTeam.abbreviation}:{" "}
+                        <span className="text-2xl font-bold text-slate-900">{projection.shots}</span> shots to score{" "}
+                        {target}
+                      </p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        Season baseline {projection.baseline.shots} shots
+                        {matchup.data.defense &&
+                          ` · ${opponentTeam.abbreviation} allow ${(matchup.data.defense.opp_fg_pct * 100).toFixed(1)}% FG (league ${(matchup.data.defense.league_opp_fg_pct * 100).toFixed(1)}%)`}
+                      </p>
+                      <p className={`mt-1 text-xs ${projection.smallSample ? "font-medium text-amber-700" : "text-slate-500"}`}>
+                        {matchup.data.split.gp === 0
+                          ? `No games against ${opponentTeam.abbreviation} in ${matchup.data.season}; adjusted for their defense only`
+                          : `${matchup.data.split.gp} ${matchup.data.split.gp === 1 ? "game" : "games"} against ${opponentTeam.abbreviation} in ${matchup.data.season} (${matchup.data.split.pts} PPG, ${matchup.data.split.fga} FGA), weighted ${Math.round(projection.splitWeight * 100)}%${projection.smallSample ? ": small sample" : ""}`}
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
               <p className="mt-4 text-xs text-slate-400">
                 Assumes similar shot quality and usage
               </p>
+              <button
+                onClick={handleAddToComparison}
+                disabled={
+                  comparePlayers.some((player) => player.id === result.playerId) ||
+                  comparePlayers.length >= MAX_COMPARISON_PLAYERS
+                }
+                className="mt-4 rounded-lg bg-blue-50 px-4 py-2 text-xs font-medium text-blue-700 hover:bg-blue-100 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {comparePlayers.some((player) => player.id === result.playerId)
+                  ? "In comparison"
+                  : `+ Compare (${comparePlayers.length}/${MAX_COMPARISON_PLAYERS})`}
+              </button>
+              {savedPlayers && (
+                <button
+                  onClick={handleToggleFavorite}
+                  disabled={
+                    !isFavorite(savedPlayers, result.playerId) && savedPlayers.favorites.length >= MAX_FAVORITES
+                  }
+                  className="ml-2 mt-4 rounded-lg bg-amber-50 px-4 py-2 text-xs font-medium text-amber-800 hover:bg-amber-100 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isFavorite(savedPlayers, result.playerId) ? "★ Favorite" : "☆ Add to favorites"}
+                </button>
+              )}
+              <a
+                href={`/api/v1/export?${new URLSearchParams({
+                  ids: String(result.playerId),
+                  target: String(target),
+                  season: result.season,
+                  seasonType: result.seasonType,
+                })}`}
+                download
+                className="mt-3 block text-xs font-medium text-blue-600 hover:underline"
+              >
+                Download CSV
+              </a>
+              {result.teamId > 0 && (
+                <Link
+                  href={`/team/${result.teamId}?${new URLSearchParams({
+                    target: String(target),
+                    season: result.season,
+                    seasonType: result.seasonType,
+                  })}`}
+                  className="mt-3 block text-xs font-medium text-blue-600 hover:underline"
+                >
+                  {result.teamName ? `${result.teamName} roster →` : "Team roster →"}
+                </Link>
+              )}
             </div>
           </div>
         )}
 
+        {comparePlayers.length > 0 && (
+          <div className="mt-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <p className="mb-2 text-center text-sm font-medium text-slate-700">
+              Who needs fewer shots to score {target}?
+            </p>
+            <PlayerComparison
+              players={comparePlayers}
+              target={target}
+              season={season}
+              seasonType={seasonType}
+              onRemove={handleRemoveFromComparison}
+            />
+          </div>
+        )}
+
+        {result && !loading && (
+          <div className="mt-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <p className="mb-2 text-center text-sm font-medium text-slate-700">
+              Shots to score {target} by season
+            </p>
+            <CareerTrendChart playerId={result.playerId} target={target} />
+          </div>
+        )}
+
+        {result && !loading && (
+          <div className="mt-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <p className="mb-2 text-center text-sm font-medium text-slate-700">
+              Shots to score {target} by split
+            </p>
+            <SplitsTable
+              playerId={result.playerId}
+              season={result.season}
+              seasonType={result.seasonType}
+              target={target}
+              baselineShots={result.shots}
+            />
+          </div>
+        )}
+
+        {result && !loading && (
+          <div className="mt-6 rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+            <p className="mb-3 text-center text-sm font-medium text-slate-700">
+              Chance to score {target}
+            </p>
+            <SimulationChart
+              key={result.playerId}
+              playerId={result.playerId}
+              season={result.season}
+              seasonType={result.seasonType}
+              target={target}
+              baselineShots={result.shots}
+            />
+          </div>
+        )}
+
         {!result && !loading && !error && selectedPlayer && (
           <div className="rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm">
             <p className="text-sm text-slate-600">Calculating...</p>
@@ -328,7 +995,7 @@ export function ShotsTo30Calculator() {
               Search for a player above
             </p>
             <p className="mt-2 text-xs text-slate-500">
-              Type a player's name to see how many shots they need to score 30 points
+              Type a player&apos;s name to see how many shots they need to score {target} points
             </p>
           </div>
         )}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  buildShotModel,
+  CONFIDENCE_LEVELS,
+  pointsDistribution,
+  shotsForProbability,
+  type GameShooting,
+} from "@/lib/simulation";
+import type { SeasonType } from "@/lib/seasons";
+
+type SimulationChartProps = {
+  playerId: number;
+  season: string;
+  seasonType: SeasonType;
+  target: number;
+  baselineShots: number;
+};
+
+export function SimulationChart({ playerId, season, seasonType, target, baselineShots }: SimulationChartProps) {
+  // Results are tagged with the request they answer, so a stale response never shows as current
+  const requestKey = `${playerId}|${season}|${seasonType}`;
+  const [response, setResponse] = useState<{
+    key: string;
+    games: GameShooting[] | null;
+    error: string | null;
+  } | null>(null);
+  const loading = response?.key !== requestKey;
+  const games = loading ? null : response.games;
+  const error = loading ? null : response.error;
+  const [shots, setShots] = useState(Math.max(1, Math.round(baselineShots)));
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ season, seasonType });
+    fetch(`/api/players/${playerId}/gamelog?${params}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to fetch game log");
+        }
+        const data = await res.json();
+        if (!cancelled) {
+          setResponse({ key: requestKey, games: data.data?.games ?? [], error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching player game log:", err);
+        if (!cancelled) {
+          setResponse({ key: requestKey, games: null, error: "Game log unavailable right now." });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, season, seasonType, requestKey]);
+
+  const model = useMemo(() => (games ? buildShotModel(games) : null), [games]);
+
+  const distribution = useMemo(
+    () => (model ? pointsDistribution(model, shots, target) : null),
+    [model, shots, target],
+  );
+
+  const thresholds = useMemo(
+    () =>
+      model
+        ? CONFIDENCE_LEVELS.map((level) => ({
+            level,
+            shots: shotsForProbability(model, target, level),
+          }))
+        : [],
+    [model, target],
+  );
+
+  if (loading) {
+    return <p className="text-center text-xs text-slate-500">Loading game log...</p>;
+  }
+
+  if (error) {
+    return <p className="text-center text-xs text-slate-500">{error}</p>;
+  }
+
+  if (!model || !distribution) {
+    return <p className="text-center text-xs text-slate-500">Not enough games to simulate.</p>;
+  }
+
+  const maxCount = Math.max(...distribution.histogram.map((bucket) => bucket.count));
+
+  return (
+    <div>
+      <div className="flex items-center gap-3">
+        <label htmlFor="simulation-shots" className="text-xs text-slate-600">
+          Shots
+        </label>
+        <input
+          id="simulation-shots"
+          type="range"
+          min={1}
+          max={60}
+          value={shots}
+          onChange={(e) => setShots(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-8 text-right text-sm font-medium text-slate-900">{shots}</span>
+      </div>
+
+      <p className="mt-3 text-center text-sm text-slate-700">
+        <span className="text-2xl font-bold text-slate-900">
+          {(distribution.probability * 100).toFixed(0)}%
+        </span>{" "}
+        chance of {target}+ with {shots} shots
+      </p>
+
+      {/* Histogram: one bar per point total, bars at or above the target highlighted */}
+      <div className="mt-4 flex h-24 items-end gap-px" aria-hidden="true">
+        {distribution.histogram.map((bucket) => (
+          <div
+            key={bucket.points}
+            title={`${bucket.points} pts: ${((bucket.count / distribution.trials) * 100).toFixed(1)}%`}
+            className={`flex-1 rounded-t-sm ${bucket.points >= target ? "bg-blue-500" : "bg-slate-300"}`}
+            style={{ height: `${(bucket.count / maxCount) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+        <span>{distribution.histogram[0]?.points} pts</span>
+        <span>avg {distribution.mean}</span>
+        <span>{distribution.histogram[distribution.histogram.length - 1]?.points} pts</span>
+      </div>
+
+      <div className="mt-4 grid grid-cols-3 gap-2 text-center">
+        {thresholds.map(({ level, shots: needed }) => (
+          <div key={level} className="rounded-xl bg-slate-50 p-2">
+            <p className="text-lg font-bold text-slate-900">{needed ?? "–"}</p>
+            <p className="text-[10px] text-slate-500">shots for {level * 100}% chance</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-3 text-center text-[10px] text-slate-400">
+        Resampled from {model.games} games of per-shot outcomes and free-throw rates
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { calculateShotsToTarget } from "@/lib/shots";
+import type { SeasonType } from "@/lib/seasons";
+
+type PlayerSplit = {
+  group: string;
+  label: string;
+  gp: number;
+  pts: number;
+  fga: number;
+};
+
+type SplitsTableProps = {
+  playerId: number;
+  season: string;
+  seasonType: SeasonType;
+  target: number;
+  baselineShots: number;
+};
+
+export function SplitsTable({ playerId, season, seasonType, target, baselineShots }: SplitsTableProps) {
+  // Results are tagged with the request they answer, so a stale response never shows as current
+  const requestKey = `${playerId}|${season}|${seasonType}`;
+  const [response, setResponse] = useState<{
+    key: string;
+    splits: PlayerSplit[] | null;
+    error: string | null;
+  } | null>(null);
+  const loading = response?.key !== requestKey;
+  const splits = loading ? null : response.splits;
+  const error = loading ? null : response.error;
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = new URLSearchParams({ season, seasonType });
+    fetch(`/api/players/${playerId}/splits?${params}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          throw new Error("Failed to fetch splits");
+        }
+        const data = await res.json();
+        if (!cancelled) {
+          setResponse({ key: requestKey, splits: data.data?.splits ?? [], error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching player splits:", err);
+        if (!cancelled) {
+          setResponse({ key: requestKey, splits: null, error: "Splits unavailable right now." });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId, season, seasonType, requestKey]);
+
+  if (loading) {
+    return <p className="text-center text-xs text-slate-500">Loading splits...</p>;
+  }
+
+  if (error) {
+    return <p className="text-center text-xs text-slate-500">{error}</p>;
+  }
+
+  if (!splits || splits.length === 0) {
+    return null;
+  }
+
+  const groups = [...new Set(splits.map((split) => split.group))];
+
+  return (
+    <table className="w-full text-left text-xs text-slate-700">
+      <thead>
+        <tr className="text-slate-500">
+          <th className="py-1 font-medium">Split</th>
+          <th className="py-1 text-right font-medium">GP</th>
+          <th className="py-1 text-right font-medium">PPG</th>
+          <th className="py-1 text-right font-medium">FGA</th>
+          <th className="py-1 text-right font-medium">Shots</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map((group) => (
+          <Fragment key={group}>
+            <tr>
+              <td colSpan={5} className="pt-3 pb-1 font-semibold text-slate-900">
+                {group}
+              </td>
+            </tr>
+            {splits
+              .filter((split) => split.group === group)
+              .map((split) => {
+                const shots = calculateShotsToTarget(split.pts, split.fga, target)?.shots;
+                return (
+                  <tr key={`${group}-${split.label}`} className="border-t border-slate-100">
+                    <td className="py-1">{split.label}</td>
+                    <td className="py-1 text-right">{split.gp}</td>
+                    <td className="py-1 text-right">{split.pts}</td>
+                    <td className="py-1 text-right">{split.fga}</td>
+                    <td
+                      className={`py-1 text-right font-medium ${
+                        shots === undefined
+                          ? "text-slate-400"
+                          : shots < baselineShots
+                            ? "text-emerald-700"
+                            : shots > baselineShots
+                              ? "text-red-700"
+                              : "text-slate-900"
+                      }`}
+                    >
+                      {shots ?? "–"}
+                    </td>
+                  </tr>
+                );
+              })}
+          </Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { calculatorPath } from "@/lib/links";
+import { getRecentSeasons, SEASON_TYPES, type SeasonType } from "@/lib/seasons";
+import { TARGET_PRESETS } from "@/lib/shots";
+import type { Team } from "@/lib/teams";
+
+type RosterEntry = {
+  player_id: number;
+  player_name: string;
+  number: string;
+  position: string;
+  gp: number;
+  min: number;
+  pts: number;
+  fga: number;
+  pointsPerShot: number | null;
+  shots: number | null;
+  ts_pct: number | null;
+};
+
+type TeamRosterProps = {
+  team: Team;
+  initialTarget: number;
+  initialSeason?: string;
+  initialSeasonType?: SeasonType;
+};
+
+const SEASON_TYPE_LABELS: Record<SeasonType, string> = {
+  "Regular Season": "Regular Season",
+  Playoffs: "Playoffs",
+  PlayIn: "Play-In",
+};
+
+const SEASON_OPTIONS = getRecentSeasons(15);
+
+const selectClassName =
+  "rounded-full border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+
+export function TeamRoster({ team, initialTarget, initialSeason, initialSeasonType }: TeamRosterProps) {
+  const [target, setTarget] = useState(initialTarget);
+  const [season, setSeason] = useState(initialSeason ?? SEASON_OPTIONS[0]);
+  const [seasonType, setSeasonType] = useState<SeasonType>(initialSeasonType ?? "Regular Season");
+
+  const params = new URLSearchParams({ target: String(target), season, seasonType });
+  const requestKey = params.toString();
+
+  // Results are tagged with the request they answer, so a stale response never shows as current
+  const [response, setResponse] = useState<{
+    key: string;
+    players: RosterEntry[];
+    error: string | null;
+  } | null>(null);
+  const loading = response?.key !== requestKey;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/teams/${team.id}?${requestKey}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load roster");
+        }
+        if (!cancelled) {
+          setResponse({ key: requestKey, players: data.data?.players ?? [], error: null });
+        }
+      })
+      .catch((err) => {
+        console.error("Error fetching team roster:", err);
+        if (!cancelled) {
+          setResponse({ key: requestKey, players: [], error: err.message });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [team.id, requestKey]);
+
+  const playerHref = (playerId: number) => calculatorPath({ playerId, target, season, seasonType });
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-5 py-8">
+      <div className="mx-auto w-full max-w-3xl">
+        <div className="mb-6 text-center">
+          <h1 className="text-2xl font-bold text-slate-900 sm:text-3xl">
+            {team.city} {team.name}: Shots to Score {target}
+          </h1>
+          <p className="mt-2 text-sm text-slate-600">
+            Every rostered player, most efficient first, by {season} {SEASON_TYPE_LABELS[seasonType]} averages
+          </p>
+          <div className="mt-2 flex justify-center gap-4 text-xs font-medium">
+            <Link href="/" className="text-blue-600 hover:underline">
+              ← Back to calculator
+            </Link>
+            <Link href="/leaderboard" className="text-blue-600 hover:underline">
+              League leaderboard
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-6 flex flex-wrap items-center justify-center gap-2">
+          <select value={target} onChange={(e) => setTarget(Number(e.target.value))} aria-label="Target points" className={selectClassName}>
+            {[...new Set([...TARGET_PRESETS, initialTarget])].sort((a, b) => a - b).map((preset) => (
+              <option key={preset} value={preset}>
+                {preset} pts
+              </option>
+            ))}
+          </select>
+          <select value={season} onChange={(e) => setSeason(e.target.value)} aria-label="Season" className={selectClassName}>
+            {[...new Set([season, ...SEASON_OPTIONS])].map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <select
+            value={seasonType}
+            onChange={(e) => setSeasonType(e.target.value as SeasonType)}
+            aria-label="Season type"
+            className={selectClassName}
+          >
+            {SEASON_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {SEASON_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="overflow-x-auto rounded-3xl border border-slate-200 bg-white p-4 shadow-sm">
+          {loading && <p className="py-8 text-center text-sm text-slate-600">Loading roster...</p>}
+          {!loading && response.error && (
+            <p className="py-8 text-center text-sm font-medium text-red-800">{response.error}</p>
+          )}
+          {!loading && response.players.length > 0 && (
+            <table className="w-full text-left text-sm text-slate-700">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="py-2 pr-2 font-medium">Player</th>
+                  <th className="py-2 pr-2 font-medium">Pos</th>
+                  <th className="py-2 pl-2 text-right font-medium">Shots</th>
+                  <th className="py-2 pl-2 text-right font-medium">Pts/shot</th>
+                  <th className="py-2 pl-2 text-right font-medium">TS%</th>
+                  <th className="py-2 pl-2 text-right font-medium">PPG</th>
+                  <th className="py-2 pl-2 text-right font-medium">FGA</th>
+                  <th className="py-2 pl-2 text-right font-medium">GP</th>
+                  <th className="py-2 pl-2 text-right font-medium">MIN</th>
+                </tr>
+              </thead>
+              <tbody>
+                {response.players.map((player) => (
+                  <tr key={player.player_id} className="border-t border-slate-100">
+                    <td className="py-1.5 pr-2 font-medium text-slate-900">
+                      <Link href={playerHref(player.player_id)} className="hover:text-blue-600">
+                        {player.player_name}
+                      </Link>
+                      {player.number && <span className="ml-1 text-xs text-slate-400">#{player.number}</span>}
+                    </td>
+                    <td className="py-1.5 pr-2 text-slate-500">{player.position}</td>
+                    <td className="py-1.5 pl-2 text-right font-semibold text-slate-900">{player.shots ?? "–"}</td>
+                    <td className="py-1.5 pl-2 text-right">{player.pointsPerShot?.toFixed(2) ?? "–"}</td>
+                    <td className="py-1.5 pl-2 text-right">
+                      {player.ts_pct === null ? "–" : `${(player.ts_pct * 100).toFixed(1)}%`}
+                    </td>
+                    <td className="py-1.5 pl-2 text-right">{player.pts}</td>
+                    <td className="py-1.5 pl-2 text-right">{player.fga}</td>
+                    <td className="py-1.5 pl-2 text-right">{player.gp}</td>
+                    <td className="py-1.5 pl-2 text-right">{player.min}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
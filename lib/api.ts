@@ -0,0 +1,141 @@
+/**
+ * Public versioned API (/api/v1)
+ * Every response uses the same envelope: `{ data, meta }` on success and
+ * `{ error: { code, message, ...details } }` on failure. Successful responses carry an ETag
+ * and Cache-Control (unless they include a failed lookup); a matching If-None-Match gets an empty 304.
+ */
+
+import { createHash } from "node:crypto";
+import { nbaErrorStatus, type NbaError, type NbaErrorKind } from "./nba";
+import { traceHeaders, type UpstreamTrace } from "./upstream";
+
+export const API_VERSION = "v1";
+
+// NbaErrorKind plus the API's own failures
+export type ApiErrorCode = NbaErrorKind | "NotFound" | "NoAttempts";
+
+export type ApiMeta = Record<string, unknown>;
+
+// Pagination for list endpoints without their own limits
+export const DEFAULT_PER_PAGE = 25;
+export const MAX_PER_PAGE = 100;
+
+// Browsers revalidate after 5 minutes; shared caches keep an hour, like the routes' revalidate
+export const API_CACHE_CONTROL = "public, max-age=300, s-maxage=3600, stale-while-revalidate=86400";
+
+/**
+ * Validate an ID path segment: digits only, positive
+ */
+export function parseId(value: string): number | undefined {
+  const id = Number(value);
+  return /^\d+$/.test(value) && Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+/** Strong ETag over the response body */
+function etag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+/** If-None-Match can list several tags, mark them weak, or be "*" */
+function matchesEtag(request: Request, tag: string): boolean {
+  const header = request.headers.get("If-None-Match");
+  if (!header) return false;
+  return header.split(",").some((value) => {
+    const candidate = value.trim();
+    return candidate === "*" || candidate.replace(/^W\//, "") === tag;
+  });
+}
+
+/**
+ * 200 with `body`, or 304 when the client already has it. `contentHeaders` (Content-Type and
+ * the like) describe the body, so a 304 leaves them out.
+ */
+export function cachedBody(
+  request: Request,
+  body: string,
+  contentHeaders: Record<string, string>,
+  headers: Record<string, string> = {},
+): Response {
+  const tag = etag(body);
+  const cacheHeaders = { ...headers, "Cache-Control": API_CACHE_CONTROL, ETag: tag };
+
+  if (matchesEtag(request, tag)) {
+    return new Response(null, { status: 304, headers: cacheHeaders });
+  }
+  return new Response(body, { headers: { ...cacheHeaders, ...contentHeaders } });
+}
+
+/**
+ * 200 with `body`, no-store and no ETag: for bodies that include a failed lookup, which a cache
+ * would keep serving (and revalidating as unchanged) after NBA Stats recovers
+ */
+export function uncachedBody(
+  body: string,
+  contentHeaders: Record<string, string>,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(body, { headers: { ...headers, "Cache-Control": "no-store", ...contentHeaders } });
+}
+
+/**
+ * 200 with `value` as JSON, or 304 when the client already has this body
+ */
+export function cachedJson(request: Request, value: unknown, headers: Record<string, string> = {}): Response {
+  return cachedBody(request, JSON.stringify(value), { "Content-Type": "application/json" }, headers);
+}
+
+/**
+ * Success envelope: `{ data, meta }`; `cache: false` sends it with uncachedBody
+ */
+export function apiData(
+  request: Request,
+  data: unknown,
+  { meta = {}, trace, cache = true }: { meta?: ApiMeta; trace?: UpstreamTrace; cache?: boolean } = {},
+): Response {
+  const headers = trace && traceHeaders(trace);
+  return cache
+    ? cachedJson(request, { data, meta }, headers)
+    : uncachedBody(JSON.stringify({ data, meta }), { "Content-Type": "application/json" }, headers);
+}
+
+/**
+ * Error envelope; never cached
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  { details, trace }: { details?: Record<string, unknown>; trace?: UpstreamTrace } = {},
+): Response {
+  return Response.json(
+    { error: { code, message, ...details } },
+    { status, headers: { "Cache-Control": "no-store", ...(trace && traceHeaders(trace)) } },
+  );
+}
+
+/**
+ * Error envelope for a failed NBA Stats lookup (same status codes as the unversioned routes)
+ */
+export function apiNbaError(error: NbaError, trace?: UpstreamTrace): Response {
+  const { kind, message, ...details } = error;
+  return apiError(nbaErrorStatus(error), kind, message, { details, trace });
+}
+
+/** 400 InvalidInput */
+export function invalidInput(message: string): Response {
+  return apiError(400, "InvalidInput", message);
+}
+
+/**
+ * Pagination block for list responses
+ */
+export function pageMeta(page: number, perPage: number, totalCount: number) {
+  const totalPages = Math.ceil(totalCount / perPage);
+  return {
+    total_pages: totalPages,
+    current_page: page,
+    next_page: page < totalPages ? page + 1 : null,
+    per_page: perPage,
+    total_count: totalCount,
+  };
+}
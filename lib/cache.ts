@@ -0,0 +1,245 @@
+/**
+ * Response cache for NBA Stats requests
+ * In-memory LRU in front of a file store, with per-endpoint TTLs, stale-while-revalidate,
+ * and stale-if-error so pages keep working while stats.nba.com is blocking or down
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createLogger } from "./logger";
+
+export type CacheEntry = {
+  body: string;
+  status: number;
+  contentType: string;
+  storedAt: number; // ms since epoch
+  servedBy?: string; // Upstream path that fetched it (see lib/upstream.ts)
+};
+
+export type CacheStore = {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+};
+
+export type CachePolicy = {
+  ttl: number; // Seconds an entry is served without contacting NBA
+  staleWhileRevalidate: number; // Further seconds it is served while a background refresh runs
+  staleIfError: number; // Seconds (from storage) it may still be served when NBA fails
+};
+
+export type CacheStatus = "HIT" | "STALE" | "MISS" | "STALE-IF-ERROR";
+
+const log = createLogger("cache");
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const DEFAULT_POLICY: CachePolicy = { ttl: HOUR, staleWhileRevalidate: DAY, staleIfError: 7 * DAY };
+
+// Keyed by the stats.nba.com endpoint name (last path segment)
+const ENDPOINT_POLICIES: Record<string, CachePolicy> = {
+  commonallplayers: { ttl: DAY, staleWhileRevalidate: 7 * DAY, staleIfError: 30 * DAY },
+  commonplayerinfo: { ttl: DAY, staleWhileRevalidate: 7 * DAY, staleIfError: 30 * DAY },
+  playercareerstats: { ttl: 12 * HOUR, staleWhileRevalidate: 7 * DAY, staleIfError: 30 * DAY },
+  playerdashboardbygeneralsplits: DEFAULT_POLICY,
+  playergamelog: DEFAULT_POLICY,
+  leaguedashplayerstats: DEFAULT_POLICY,
+  leaguedashteamstats: DEFAULT_POLICY,
+  commonteamroster: { ttl: 12 * HOUR, staleWhileRevalidate: 7 * DAY, staleIfError: 30 * DAY },
+  teamplayerdashboard: DEFAULT_POLICY,
+};
+
+/**
+ * Cache policy for an NBA Stats URL, chosen by endpoint
+ */
+export function getCachePolicy(url: string): CachePolicy {
+  const endpoint = new URL(url).pathname.split("/").filter(Boolean).pop() ?? "";
+  return ENDPOINT_POLICIES[endpoint.toLowerCase()] ?? DEFAULT_POLICY;
+}
+
+/**
+ * In-memory LRU store (Map iteration order doubles as recency order)
+ */
+export function createMemoryStore(maxEntries = 500): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * File store: one JSON file per key. Survives restarts; read/write failures are treated as misses.
+ */
+export function createFileStore(dir: string): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${createHash("sha1").update(key).digest("hex")}.json`);
+  return {
+    async get(key) {
+      try {
+        const stored = JSON.parse(await readFile(fileFor(key), "utf8")) as { key: string; entry: CacheEntry };
+        return stored.key === key ? stored.entry : undefined;
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      try {
+        await mkdir(dir, { recursive: true });
+        // Write then rename so a concurrent reader never sees a half-written file
+        const file = fileFor(key);
+        const tmp = `${file}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify({ key, entry }));
+        await rename(tmp, file);
+      } catch (error) {
+        log.warn("File store write failed", { error });
+      }
+    },
+  };
+}
+
+/**
+ * Memory in front of a slower persistent store; persistent hits are promoted to memory
+ */
+export function createTieredStore(memory: CacheStore, persistent: CacheStore): CacheStore {
+  return {
+    async get(key) {
+      const entry = (await memory.get(key)) ?? (await persistent.get(key));
+      if (entry) {
+        await memory.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      await Promise.all([memory.set(key, entry), persistent.set(key, entry)]);
+    },
+  };
+}
+
+/**
+ * Store configured from the environment:
+ * NBA_CACHE_DIR (default: <tmpdir>/nba-stats-cache, "off" = memory only),
+ * NBA_CACHE_MAX_ENTRIES (default: 500)
+ */
+function createDefaultStore(): CacheStore {
+  const memory = createMemoryStore(Number(process.env.NBA_CACHE_MAX_ENTRIES) || 500);
+  const dir = process.env.NBA_CACHE_DIR?.trim() || path.join(tmpdir(), "nba-stats-cache");
+  return dir === "off" ? memory : createTieredStore(memory, createFileStore(dir));
+}
+
+// A failed upstream response, kept as data so every caller sharing the request gets its own Response
+type FailedResponse = {
+  failed: CacheEntry;
+  statusText: string;
+};
+
+let defaultStore: CacheStore | undefined;
+const inFlight = new Map<string, Promise<CacheEntry>>();
+
+function toResponse(entry: CacheEntry, status: CacheStatus): Response {
+  return new Response(entry.body, {
+    status: entry.status,
+    headers: {
+      "Content-Type": entry.contentType,
+      "X-Cache": status,
+      ...(entry.servedBy && { "X-Served-By": entry.servedBy }),
+      Age: String(Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000))),
+    },
+  });
+}
+
+function isFailedResponse(error: unknown): error is FailedResponse {
+  return typeof error === "object" && error !== null && "failed" in error;
+}
+
+/**
+ * Fetch upstream and store successful responses. Concurrent requests for the same key
+ * share one upstream fetch. Rejects with a FailedResponse (or the fetch error) when it fails.
+ */
+function refresh(key: string, store: CacheStore, fetcher: () => Promise<Response>): Promise<CacheEntry> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const response = await fetcher();
+    const entry: CacheEntry = {
+      body: await response.text(),
+      status: response.status,
+      contentType: response.headers.get("Content-Type") || "application/json",
+      storedAt: Date.now(),
+      servedBy: response.headers.get("X-Served-By") ?? undefined,
+    };
+    if (!response.ok) {
+      throw { failed: entry, statusText: response.statusText } satisfies FailedResponse;
+    }
+    await store.set(key, entry);
+    return entry;
+  })().finally(() => {
+    inFlight.delete(key);
+  });
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Serve `key` from the cache according to `policy`, calling `fetcher` on a miss or for revalidation.
+ * Responses carry an X-Cache header saying how they were served.
+ */
+export async function cachedFetch(
+  key: string,
+  policy: CachePolicy,
+  fetcher: () => Promise<Response>,
+  store: CacheStore = (defaultStore ??= createDefaultStore()),
+): Promise<Response> {
+  const cached = await store.get(key);
+  const age = cached ? (Date.now() - cached.storedAt) / 1000 : Infinity;
+
+  if (cached && age < policy.ttl) {
+    return toResponse(cached, "HIT");
+  }
+
+  if (cached && age < policy.ttl + policy.staleWhileRevalidate) {
+    refresh(key, store, fetcher).catch((error) => {
+      log.warn("Background revalidation failed", { key, error: isFailedResponse(error) ? error.failed.status : error });
+    });
+    return toResponse(cached, "STALE");
+  }
+
+  try {
+    return toResponse(await refresh(key, store, fetcher), "MISS");
+  } catch (error) {
+    if (cached && age < policy.staleIfError) {
+      log.warn("Upstream failed, serving stale entry", { key });
+      return toResponse(cached, "STALE-IF-ERROR");
+    }
+    if (isFailedResponse(error)) {
+      return new Response(error.failed.body, {
+        status: error.failed.status,
+        statusText: error.statusText,
+        headers: {
+          "Content-Type": error.failed.contentType,
+          "X-Cache": "MISS",
+          ...(error.failed.servedBy && { "X-Served-By": error.failed.servedBy }),
+        },
+      });
+    }
+    throw error;
+  }
+}
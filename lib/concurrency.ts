@@ -0,0 +1,31 @@
+/**
+ * Bounded-concurrency helpers for fanning out NBA Stats requests
+ * stats.nba.com starts throttling when too many requests arrive at once
+ */
+
+export const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Map over `items` with at most `limit` calls to `fn` in flight at a time.
+ * Results keep the order of `items`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,102 @@
+/**
+ * playerdashboardbygeneralsplits query builder and result-set parser
+ * Pure functions (no fetching) so they can be unit-tested against recorded responses (fixtures/nba)
+ */
+
+import { getResultSets, NBA_SCHEMAS, SchemaDriftError, validateResultSet, type ResultSetRow } from "./schema";
+import type { SeasonType } from "./seasons";
+
+export const NBA_STATS_BASE = "https://stats.nba.com/stats";
+
+export type PerMode = "PerGame" | "Totals" | "Per36" | "Per48" | "Per40" | "PerMinute" | "PerPossession" | "Per100Possessions";
+
+export type DashboardFilters = {
+  season: string;
+  seasonType?: SeasonType;
+  perMode?: PerMode;
+  location?: "" | "Home" | "Road";
+  outcome?: "" | "W" | "L";
+  month?: number; // 0 = all, 1 = October ... 12 = September (NBA season order)
+  lastNGames?: number; // 0 = all
+  opponentTeamId?: number; // 0 = all
+  dateFrom?: string; // MM/DD/YYYY
+  dateTo?: string; // MM/DD/YYYY
+  period?: number; // 0 = whole game
+  seasonSegment?: "" | "Pre All-Star" | "Post All-Star";
+  vsConference?: "" | "East" | "West";
+  vsDivision?: string;
+  gameSegment?: "" | "First Half" | "Second Half" | "Overtime";
+  shotClockRange?: string;
+};
+
+// Result sets returned by playerdashboardbygeneralsplits
+export type DashboardResultSetName =
+  | "OverallPlayerDashboard"
+  | "LocationPlayerDashboard"
+  | "WinsLossesPlayerDashboard"
+  | "MonthPlayerDashboard"
+  | "PrePostAllStarPlayerDashboard"
+  | "StartingPosition"
+  | "DaysRestPlayerDashboard";
+
+/**
+ * One row of a dashboard result set, keyed by column header.
+ * Columns the app relies on are validated and typed (see lib/schema.ts); rank columns etc. fall through to the index signature.
+ */
+export type DashboardRow = ResultSetRow<"playerdashboardbygeneralsplits", DashboardResultSetName>;
+
+/**
+ * Build the playerdashboardbygeneralsplits URL. Every parameter the endpoint requires
+ * is always sent (NBA returns 400 when one is missing), with "all games" defaults.
+ */
+export function buildPlayerDashboardUrl(playerId: number, filters: DashboardFilters): URL {
+  const url = new URL(`${NBA_STATS_BASE}/playerdashboardbygeneralsplits`);
+  url.searchParams.set("MeasureType", "Base");
+  url.searchParams.set("PerMode", filters.perMode ?? "PerGame");
+  url.searchParams.set("PlusMinus", "N");
+  url.searchParams.set("PaceAdjust", "N");
+  url.searchParams.set("Rank", "N");
+  url.searchParams.set("LeagueID", "00");
+  url.searchParams.set("Season", filters.season);
+  url.searchParams.set("SeasonType", filters.seasonType ?? "Regular Season");
+  url.searchParams.set("PlayerID", String(playerId));
+  url.searchParams.set("Outcome", filters.outcome ?? "");
+  url.searchParams.set("Location", filters.location ?? "");
+  url.searchParams.set("Month", String(filters.month ?? 0));
+  url.searchParams.set("SeasonSegment", filters.seasonSegment ?? "");
+  url.searchParams.set("DateFrom", filters.dateFrom ?? "");
+  url.searchParams.set("DateTo", filters.dateTo ?? "");
+  url.searchParams.set("OpponentTeamID", String(filters.opponentTeamId ?? 0));
+  url.searchParams.set("VsConference", filters.vsConference ?? "");
+  url.searchParams.set("VsDivision", filters.vsDivision ?? "");
+  url.searchParams.set("GameSegment", filters.gameSegment ?? "");
+  url.searchParams.set("Period", String(filters.period ?? 0));
+  url.searchParams.set("ShotClockRange", filters.shotClockRange ?? "");
+  url.searchParams.set("LastNGames", String(filters.lastNGames ?? 0));
+  return url;
+}
+
+/**
+ * Validate and parse every known result set of a playerdashboardbygeneralsplits response.
+ * Throws SchemaDriftError when the response or one of its result sets has changed shape.
+ */
+export function parsePlayerDashboard(
+  data: unknown,
+): Partial<Record<DashboardResultSetName, DashboardRow[]>> {
+  const resultSets = getResultSets(data);
+  if (!resultSets) {
+    throw new SchemaDriftError("playerdashboardbygeneralsplits", "resultSets", ["response has no valid resultSets array"]);
+  }
+
+  const dashboard: Partial<Record<DashboardResultSetName, DashboardRow[]>> = {};
+  for (const { name } of resultSets) {
+    if (isDashboardResultSetName(name)) {
+      dashboard[name] = validateResultSet(data, "playerdashboardbygeneralsplits", name);
+    }
+  }
+  return dashboard;
+}
+
+function isDashboardResultSetName(name: string): name is DashboardResultSetName {
+  return name in NBA_SCHEMAS.playerdashboardbygeneralsplits;
+}
@@ -0,0 +1,120 @@
+/**
+ * Bulk export of shots-to-target calculations
+ * One flat row per player, as CSV for spreadsheets or as JSON
+ */
+
+import type { LeaderboardEntry } from "./leaderboard";
+import type { NbaResult, PlayerStats } from "./nba";
+import type { SeasonType } from "./seasons";
+import { calculateShotsToTarget } from "./shots";
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json"];
+
+// More ids than the comparison view, still few enough to fetch one by one
+export const MAX_EXPORT_IDS = 50;
+
+export type ExportRow = {
+  player_id: number;
+  player_name: string;
+  team: string; // Abbreviation; empty when not on a roster
+  season: string;
+  season_type: SeasonType;
+  target: number;
+  pts: number | null; // null when `error` is set
+  fga: number | null;
+  points_per_shot: number | null;
+  shots: number | null;
+  error: string; // Why the player has no numbers; empty otherwise
+};
+
+export const EXPORT_COLUMNS: Array<keyof ExportRow> = [
+  "player_id",
+  "player_name",
+  "team",
+  "season",
+  "season_type",
+  "target",
+  "pts",
+  "fga",
+  "points_per_shot",
+  "shots",
+  "error",
+];
+
+/**
+ * A row from fetchPlayerSeasonAverages' result. Failed lookups keep their row (with `error`)
+ * so the export lists every requested id.
+ */
+export function statsExportRow(
+  playerId: number,
+  result: NbaResult<PlayerStats>,
+  { target, season, seasonType }: { target: number; season: string; seasonType: SeasonType },
+): ExportRow {
+  const stats = result.data;
+  const calculation = stats && calculateShotsToTarget(stats.pts, stats.fga, target);
+  const row = {
+    player_id: playerId,
+    player_name: stats ? `${stats.player.first_name} ${stats.player.last_name}`.trim() : "",
+    team: stats?.player.team_abbreviation ?? "",
+    season: stats?.season ?? season,
+    season_type: stats?.season_type ?? seasonType,
+    target,
+  };
+
+  if (!stats || !calculation) {
+    return {
+      ...row,
+      pts: null,
+      fga: null,
+      points_per_shot: null,
+      shots: null,
+      error: result.error?.message ?? "Player has no field goal attempts or points this season",
+    };
+  }
+  return {
+    ...row,
+    pts: stats.pts,
+    fga: stats.fga,
+    points_per_shot: calculation.pointsPerShot,
+    shots: calculation.shots,
+    error: "",
+  };
+}
+
+/**
+ * A row from a leaderboard entry (already calculated)
+ */
+export function leaderboardExportRow(
+  entry: LeaderboardEntry,
+  { target, season, seasonType }: { target: number; season: string; seasonType: SeasonType },
+): ExportRow {
+  return {
+    player_id: entry.player_id,
+    player_name: entry.player_name,
+    team: entry.team_abbreviation,
+    season,
+    season_type: seasonType,
+    target,
+    pts: entry.pts,
+    fga: entry.fga,
+    points_per_shot: entry.pointsPerShot,
+    shots: entry.shots,
+    error: "",
+  };
+}
+
+/** Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180) */
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * CSV of `columns` with a header row and CRLF line endings
+ */
+export function toCsv<T>(rows: T[], columns: Array<keyof T & string>): string {
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((column) => csvField(row[column])).join(","))];
+  return `${lines.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,141 @@
+/**
+ * League-wide shots-to-target leaderboard
+ * Pure ranking, filtering and pagination over leaguedashplayerstats rows
+ */
+
+import type { LeaguePlayerStats, LeagueStatsOptions, PlayerPosition } from "./nba";
+import { parseSeasonOptions } from "./seasons";
+import { calculateShotsToTarget, parseTargetOption } from "./shots";
+import { getTeam } from "./teams";
+
+export type LeaderboardSort = "shots" | "pts" | "fga" | "pointsPerShot" | "gp" | "min";
+
+export const LEADERBOARD_SORTS: LeaderboardSort[] = ["shots", "pts", "fga", "pointsPerShot", "gp", "min"];
+
+export const POSITIONS: PlayerPosition[] = ["G", "F", "C"];
+
+export const DEFAULT_PER_PAGE = 25;
+export const MAX_PER_PAGE = 100;
+
+export type LeaderboardFilters = {
+  target: number;
+  minGames: number;
+  minMinutes: number; // Minutes per game
+  sort: LeaderboardSort;
+  order: "asc" | "desc";
+  page: number; // 1-based
+  perPage: number;
+};
+
+export type LeaderboardEntry = LeaguePlayerStats & {
+  rank: number; // Rank by fewest shots to the target, regardless of sort column
+  pointsPerShot: number;
+  shots: number;
+};
+
+export type LeaderboardPage = {
+  entries: LeaderboardEntry[];
+  totalCount: number;
+  totalPages: number;
+};
+
+/**
+ * Filter by games and minutes, rank by shots to the target, then sort and paginate
+ */
+export function buildLeaderboard(rows: LeaguePlayerStats[], filters: LeaderboardFilters): LeaderboardPage {
+  const ranked = rows
+    .filter((row) => row.gp >= filters.minGames && row.min >= filters.minMinutes)
+    .flatMap((row) => {
+      const calculation = calculateShotsToTarget(row.pts, row.fga, filters.target);
+      return calculation
+        ? [{ ...row, pointsPerShot: calculation.pointsPerShot, shots: calculation.shots }]
+        : [];
+    })
+    .sort((a, b) => a.shots - b.shots || b.pts - a.pts)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  const direction = filters.order === "asc" ? 1 : -1;
+  const sorted =
+    filters.sort === "shots"
+      ? filters.order === "asc" ? ranked : [...ranked].reverse()
+      : [...ranked].sort((a, b) => (a[filters.sort] - b[filters.sort]) * direction || a.rank - b.rank);
+
+  const start = (filters.page - 1) * filters.perPage;
+  return {
+    entries: sorted.slice(start, start + filters.perPage),
+    totalCount: sorted.length,
+    totalPages: Math.ceil(sorted.length / filters.perPage),
+  };
+}
+
+function parseNonNegative(value: string | null, fallback: number): number | null {
+  if (value === null || value === "") return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Read leaderboard query params (season, seasonType, target, minGames, minMinutes, team,
+ * position, sort, order, page, per_page) for the leaderboard route
+ */
+export function parseLeaderboardQuery(
+  searchParams: URLSearchParams,
+):
+  | { filters: LeaderboardFilters; options: LeagueStatsOptions; error?: undefined }
+  | { filters?: undefined; options?: undefined; error: string } {
+  const { options, error } = parseSeasonOptions(searchParams);
+  if (error !== undefined) return { error };
+
+  const { target, error: targetError } = parseTargetOption(searchParams);
+  if (targetError !== undefined) return { error: targetError };
+
+  const minGames = parseNonNegative(searchParams.get("minGames"), 0);
+  const minMinutes = parseNonNegative(searchParams.get("minMinutes"), 0);
+  if (minGames === null || minMinutes === null) {
+    return { error: "Invalid minGames or minMinutes (expected a non-negative number)" };
+  }
+
+  // 0 (or no team) means the whole league
+  const teamId = parseNonNegative(searchParams.get("team"), 0);
+  if (teamId === null || (teamId !== 0 && !getTeam(teamId))) {
+    return { error: "Invalid team (expected a team ID)" };
+  }
+
+  const rawPosition = searchParams.get("position") || undefined;
+  const position = rawPosition && POSITIONS.find((p) => p === rawPosition.toUpperCase());
+  if (rawPosition && !position) {
+    return { error: "Invalid position (expected G, F or C)" };
+  }
+
+  const rawSort = searchParams.get("sort") || "shots";
+  const sort = LEADERBOARD_SORTS.find((s) => s === rawSort);
+  if (!sort) {
+    return { error: `Invalid sort (expected one of ${LEADERBOARD_SORTS.join(", ")})` };
+  }
+
+  // Fewest shots first by default; for every other column the biggest number first
+  const rawOrder = searchParams.get("order") || (sort === "shots" ? "asc" : "desc");
+  const order = rawOrder === "asc" || rawOrder === "desc" ? rawOrder : undefined;
+  if (!order) {
+    return { error: "Invalid order (expected asc or desc)" };
+  }
+
+  const page = parseNonNegative(searchParams.get("page"), 1);
+  const perPage = parseNonNegative(searchParams.get("per_page"), DEFAULT_PER_PAGE);
+  if (page === null || !Number.isInteger(page) || page < 1 || perPage === null || !Number.isInteger(perPage) || perPage < 1) {
+    return { error: "Invalid page or per_page" };
+  }
+
+  return {
+    filters: {
+      target,
+      minGames,
+      minMinutes,
+      sort,
+      order,
+      page,
+      perPage: Math.min(perPage, MAX_PER_PAGE),
+    },
+    options: { ...options, teamId, position: position || undefined },
+  };
+}
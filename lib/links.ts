@@ -0,0 +1,109 @@
+/**
+ * Shareable calculator links
+ * Builds and reads /player/[id] URLs (and the older /?player= form); safe to import from client components
+ */
+
+import { parseSeason, parseSeasonType, type SeasonType } from "./seasons";
+import {
+  calculateShotsToTarget,
+  calculateTrueShooting,
+  DEFAULT_TARGET,
+  parseMode,
+  parseTarget,
+  type CalculationMode,
+  type ShootingLine,
+} from "./shots";
+import { getTeam } from "./teams";
+
+// What a link restores; undefined = the calculator's default
+export type CalculatorLink = {
+  playerId?: number;
+  target?: number;
+  season?: string; // undefined = current season
+  seasonType?: SeasonType;
+  mode?: CalculationMode;
+  opponent?: number; // Team ID
+};
+
+const PLAYER_PATH = /^\/player\/(\d+)\/?$/;
+
+function parsePlayerId(value: string | null | undefined): number | undefined {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+}
+
+// Query for the calculator options; defaults are left out so links stay short
+function linkQuery({ target, season, seasonType, mode, opponent }: CalculatorLink): string {
+  const params = new URLSearchParams();
+  if (target !== undefined && target !== DEFAULT_TARGET) params.set("target", String(target));
+  if (season) params.set("season", season);
+  if (seasonType && seasonType !== "Regular Season") params.set("seasonType", seasonType);
+  if (mode && mode !== "naive") params.set("mode", mode);
+  if (opponent) params.set("opponent", String(opponent));
+  return params.toString();
+}
+
+/**
+ * Path and query for a calculator state, e.g. "/player/203999?target=40&season=2024-25"
+ */
+export function calculatorPath(link: CalculatorLink): string {
+  const query = linkQuery(link);
+  const path = link.playerId ? `/player/${link.playerId}` : "/";
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * Open Graph image for a player link, e.g. "/player/203999/og?target=40"
+ */
+export function playerImagePath(link: CalculatorLink & { playerId: number }): string {
+  const query = linkQuery(link);
+  return `/player/${link.playerId}/og${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Read the calculator options from a link's query (invalid values are dropped)
+ */
+export function parseCalculatorQuery(query: URLSearchParams | Record<string, string | undefined>): CalculatorLink {
+  const get = (name: string) => (query instanceof URLSearchParams ? query.get(name) : query[name]);
+  return {
+    target: parseTarget(get("target")) ?? undefined,
+    season: parseSeason(get("season")) ?? undefined,
+    seasonType: parseSeasonType(get("seasonType")) ?? undefined,
+    mode: parseMode(get("mode")) ?? undefined,
+    opponent: getTeam(Number(get("opponent")))?.id,
+  };
+}
+
+/**
+ * Read a whole calculator URL: /player/[id]?... or /?player=<id>&...
+ */
+export function parseCalculatorUrl(url: URL): CalculatorLink {
+  const playerId = parsePlayerId(url.pathname.match(PLAYER_PATH)?.[1] ?? url.searchParams.get("player"));
+  return { playerId, ...parseCalculatorQuery(url.searchParams) };
+}
+
+/**
+ * Validate the [id] segment of /player/[id]
+ */
+export function parsePlayerPathId(value: string): number | undefined {
+  return /^\d+$/.test(value) ? parsePlayerId(value) : undefined;
+}
+
+/**
+ * The result in a few words, for page titles and preview images, e.g.
+ * { shots: "19.8", caption: "shots to score 30" }. Null when the player has no attempts.
+ */
+export function shareSummary(
+  line: ShootingLine,
+  target: number = DEFAULT_TARGET,
+  mode: CalculationMode = "naive",
+): { shots: string; caption: string } | null {
+  if (mode === "true-shooting") {
+    const calculation = calculateTrueShooting(line, target);
+    return calculation
+      ? { shots: String(calculation.fga), caption: `shots + ${calculation.ftTrips} free-throw trips to score ${target}` }
+      : null;
+  }
+  const calculation = calculateShotsToTarget(line.pts, line.fga, target);
+  return calculation ? { shots: String(calculation.shots), caption: `shots to score ${target}` } : null;
+}
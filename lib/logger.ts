@@ -0,0 +1,87 @@
+/**
+ * Server-side logging
+ * One JSON object per line (same shape as the proxy's logs), filtered by LOG_LEVEL
+ * (debug, info, warn, error or silent; default info). Lines logged while handling an
+ * API request carry that request's ID, which is also sent to the proxy.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = Record<LogLevel, (msg: string, fields?: LogFields) => void> & {
+  isEnabled: (level: LogLevel) => boolean;
+};
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+// Incoming IDs are echoed into logs and headers, so only accept short, plain ones
+const VALID_REQUEST_ID = /^[\w.-]{1,64}$/;
+
+function currentLevel(): number {
+  const level = process.env.LOG_LEVEL?.trim().toLowerCase() ?? "";
+  return Object.hasOwn(LEVELS, level) ? LEVELS[level as keyof typeof LEVELS] : LEVELS.info;
+}
+
+/** Errors don't serialize with JSON.stringify; keep their name and message */
+function serialize(value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value;
+}
+
+// --- Request IDs ---
+
+const requestStorage = new AsyncLocalStorage<string>();
+
+/**
+ * The caller's X-Request-Id when it looks sane, otherwise a new ID
+ */
+export function createRequestId(request?: Request): string {
+  const given = request?.headers.get(REQUEST_ID_HEADER)?.trim();
+  return given && VALID_REQUEST_ID.test(given) ? given : randomUUID();
+}
+
+/** Run `fn` with `requestId` attached to everything it logs */
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return requestStorage.run(requestId, fn);
+}
+
+/** The ID of the request being handled, if any */
+export function getRequestId(): string | undefined {
+  return requestStorage.getStore();
+}
+
+// --- Loggers ---
+
+/**
+ * A logger whose lines are tagged with `scope`, e.g. createLogger("nba")
+ */
+export function createLogger(scope: string): Logger {
+  const write = (level: LogLevel) => (msg: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < currentLevel()) return;
+    const entry: LogFields = { ts: new Date().toISOString(), level, scope, msg };
+    const requestId = getRequestId();
+    if (requestId) entry.request_id = requestId;
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serialize(value);
+    }
+    const line = JSON.stringify(entry);
+    if (level === "error" || level === "warn") {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    isEnabled: (level) => LEVELS[level] >= currentLevel(),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Opponent-adjusted shots-to-target projection
+ * Pure math shared by the matchup route and the calculator UI
+ */
+
+import { calculateShotsToTarget, type ShotsCalculation } from "./shots";
+
+// Head-to-head games at which the split counts as much as the defense-adjusted season rate
+export const MATCHUP_PRIOR_GAMES = 5;
+
+// Below this many games against the opponent the split is flagged as a small sample
+export const SMALL_SAMPLE_GAMES = 3;
+
+export type MatchupInput = {
+  baseline: { pts: number; fga: number }; // Season per-game averages
+  split: { gp: number; pts: number; fga: number }; // Per game against the opponent
+  defense: { opp_fg_pct: number; league_opp_fg_pct: number } | null;
+};
+
+export type MatchupProjection = ShotsCalculation & {
+  baseline: ShotsCalculation;
+  defenseFactor: number; // Opponent FG% allowed / league; above 1 = easier to score on
+  splitPointsPerShot: number | null; // null without attempts against the opponent
+  splitWeight: number; // 0-1, share of the projection taken from the head-to-head split
+  smallSample: boolean;
+};
+
+/**
+ * Points per shot against the opponent: the season rate scaled by the opponent's FG% allowed,
+ * blended with the player's own head-to-head rate, which earns weight as games accumulate
+ * (gp / (gp + MATCHUP_PRIOR_GAMES)). Returns null when the player has no season baseline.
+ */
+export function projectMatchup(
+  { baseline, split, defense }: MatchupInput,
+  target: number,
+): MatchupProjection | null {
+  const seasonCalculation = calculateShotsToTarget(baseline.pts, baseline.fga, target);
+  if (!seasonCalculation) {
+    return null;
+  }
+
+  const defenseFactor =
+    defense && defense.league_opp_fg_pct > 0 ? defense.opp_fg_pct / defense.league_opp_fg_pct : 1;
+  const prior = (baseline.pts / baseline.fga) * defenseFactor;
+
+  const splitPointsPerShot = split.gp > 0 && split.fga > 0 ? split.pts / split.fga : null;
+  const splitWeight = splitPointsPerShot === null ? 0 : split.gp / (split.gp + MATCHUP_PRIOR_GAMES);
+  const pointsPerShot = splitWeight * (splitPointsPerShot ?? 0) + (1 - splitWeight) * prior;
+
+  return {
+    target,
+    pointsPerShot: Number(pointsPerShot.toFixed(3)),
+    shots: Number((target / pointsPerShot).toFixed(1)),
+    baseline: seasonCalculation,
+    defenseFactor: Number(defenseFactor.toFixed(3)),
+    splitPointsPerShot: splitPointsPerShot === null ? null : Number(splitPointsPerShot.toFixed(3)),
+    splitWeight: Number(splitWeight.toFixed(2)),
+    smallSample: split.gp < SMALL_SAMPLE_GAMES,
+  };
+}
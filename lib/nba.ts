@@ -4,234 +4,771 @@
  * Base URL: https://stats.nba.com/stats/
  */
 
+import { cachedFetch, getCachePolicy } from "./cache";
+import {
+  buildPlayerDashboardUrl,
+  NBA_STATS_BASE,
+  parsePlayerDashboard,
+  type DashboardFilters,
+  type DashboardResultSetName,
+  type DashboardRow,
+} from "./dashboard";
+import { buildPlayerIndex, searchPlayerIndex, type PlayerIndex, type PlayerSearchResult } from "./playerIndex";
+import { SchemaDriftError, validateResultSet, type ResultSetName } from "./schema";
+import { createLogger, getRequestId } from "./logger";
+import { getCurrentSeason, getPreviousSeason, type SeasonOptions, type SeasonType } from "./seasons";
+import { calculateTrueShooting } from "./shots";
+import { getTeam } from "./teams";
+import { fetchUpstream, recordUpstreamPath, SERVED_BY_HEADER, type UpstreamInit, type UpstreamPath } from "./upstream";
+
+export type { PlayerSearchResult } from "./playerIndex";
+export type { SeasonOptions, SeasonType } from "./seasons";
+
 export type Player = {
   id: number;
   first_name: string;
   last_name: string;
   display_name?: string;
+  team_id?: number; // 0 when not on a roster
+  team_abbreviation?: string; // e.g. "DEN"; empty when not on a roster
+  team_name?: string; // e.g. "Denver Nuggets"
+  from_year?: number; // First season's start year
+  to_year?: number; // Last season's start year
+};
+
+export type ActiveFilter = "all" | "current" | "retired";
+
+export const ACTIVE_FILTERS: ActiveFilter[] = ["all", "current", "retired"];
+
+export type SearchOptions = {
+  active?: ActiveFilter; // Default "current"
+  page?: number; // 1-based
+  perPage?: number;
 };
 
 export type PlayerStats = {
   player: Player;
   pts: number; // Points per game
   fga: number; // Field goal attempts per game
+  fgm: number; // Field goals made per game
+  fg3m: number; // Threes made per game
+  fg3a: number; // Three-point attempts per game
+  ftm: number; // Free throws made per game
+  fta: number; // Free throw attempts per game
+  ts_pct: number; // True shooting %: PTS / (2 * (FGA + 0.44 * FTA))
+  season: string; // Season the stats actually come from (e.g. "2024-25")
+  season_type: SeasonType;
+  requested_season: string; // Season that was asked for; differs from `season` after a fallback
+};
+
+export type SplitGroup =
+  | "Location"
+  | "Outcome"
+  | "Last N Games"
+  | "Month"
+  | "All-Star Break"
+  | "Starting Position"
+  | "Days Rest";
+
+export type PlayerSplit = {
+  group: SplitGroup;
+  label: string; // e.g. "Home", "Wins", "January", "Last 10"
+  gp: number; // Games played in this split
+  pts: number; // Points per game
+  fga: number; // Field goal attempts per game
+};
+
+export type PlayerSplits = {
+  player_id: number;
+  season: string;
+  season_type: SeasonType;
+  splits: PlayerSplit[];
+};
+
+export type GameLogEntry = {
+  game_id: string;
+  game_date: string; // e.g. "APR 13, 2025"
+  matchup: string; // e.g. "DEN vs. LAL" or "DEN @ LAL"
+  wl: "W" | "L" | null;
+  min: number;
+  pts: number;
+  fgm: number;
+  fga: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+};
+
+export type PlayerGameLog = {
+  player_id: number;
+  season: string;
+  season_type: SeasonType;
+  games: GameLogEntry[]; // Most recent game first
+};
+
+export type CareerSeason = {
+  season: string; // e.g. "2023-24"
+  season_type: "Regular Season" | "Playoffs";
+  team: string; // Team abbreviation; "TOT" when the player was traded mid-season
+  gp: number;
+  pts: number; // Points per game
+  fga: number; // Field goal attempts per game
+};
+
+export type PlayerCareer = {
+  player_id: number;
+  seasons: CareerSeason[]; // Oldest first, regular season and playoffs interleaved
+};
+
+export type PlayerPosition = "G" | "F" | "C";
+
+export type LeaguePlayerStats = {
+  player_id: number;
+  player_name: string;
+  team_id: number;
+  team_abbreviation: string;
+  gp: number;
+  min: number; // Minutes per game
+  pts: number; // Points per game
+  fga: number; // Field goal attempts per game
+};
+
+export type LeagueStatsOptions = SeasonOptions & {
+  teamId?: number; // 0 or undefined = all teams
+  position?: PlayerPosition;
+};
+
+export type TeamRosterPlayer = {
+  player_id: number;
+  player_name: string;
+  number: string; // Jersey number; empty when unknown
+  position: string; // e.g. "G", "F-C"
+  gp: number; // 0 when the player has no games for the team
+  min: number; // Per-game averages from here on
+  pts: number;
+  fga: number;
+  fgm: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+};
+
+export type TeamRoster = {
+  team_id: number;
+  season: string;
+  season_type: SeasonType;
+  players: TeamRosterPlayer[];
+};
+
+export type OpponentSplit = {
+  opponent_team_id: number;
+  gp: number; // 0 when the player hasn't faced the opponent this season
+  pts: number; // Per game against the opponent
+  fga: number;
+};
+
+export type TeamDefense = {
+  team_id: number;
+  gp: number;
+  opp_fg_pct: number; // Field goal % the team's opponents shoot
+  league_opp_fg_pct: number; // The same across the league, weighted by attempts
+};
+
+export type MatchupStats = {
+  stats: PlayerStats; // Season baseline; `season` may have fallen back like fetchPlayerSeasonAverages
+  split: OpponentSplit; // Same season as `stats`
+  defense: TeamDefense | null; // null when the opponent has no games in that season
 };
 
-const NBA_STATS_BASE = "https://stats.nba.com/stats";
+export type NbaErrorKind = "UpstreamBlocked" | "UpstreamTimeout" | "NoSeasonData" | "SchemaChanged" | "InvalidInput";
+
+// Why an NBA Stats lookup failed; `message` is safe to show to users
+export type NbaError =
+  | { kind: "UpstreamBlocked"; message: string; status: number } // NBA or the proxy refused or failed the request (0 = unreachable)
+  | { kind: "UpstreamTimeout"; message: string }
+  | { kind: "NoSeasonData"; message: string; season: string; season_type: SeasonType }
+  | { kind: "SchemaChanged"; message: string; endpoint: string }
+  | { kind: "InvalidInput"; message: string };
+
+export type NbaResult<T> = { data: T; error?: undefined } | { data?: undefined; error: NbaError };
 
-// Headers to mimic a browser request (NBA Stats API requires this)
-const NBA_HEADERS: HeadersInit = {
-  "Accept": "application/json, text/plain, */*",
-  "Accept-Language": "en-US,en;q=0.9",
-  "Referer": "https://www.nba.com/",
-  "Origin": "https://www.nba.com",
-  "User-Agent":
-    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+const log = createLogger("nba");
+
+const NBA_ERROR_STATUS: Record<NbaErrorKind, number> = {
+  UpstreamBlocked: 502,
+  UpstreamTimeout: 504,
+  NoSeasonData: 404,
+  SchemaChanged: 502,
+  InvalidInput: 400,
 };
 
 /**
- * Fetch from NBA Stats API. When NBA_STATS_PROXY_URL is set (e.g. on Vercel),
- * requests go through that proxy so they aren't blocked by NBA's cloud IP block.
- * Proxy should accept GET ?url=<encoded-nba-url> and return the response body.
+ * HTTP status a route should answer with for an NbaError
  */
-async function nbaFetch(
-  url: string,
-  init?: RequestInit & { next?: { revalidate?: number } },
-): Promise<Response> {
-  let proxy = process.env.NBA_STATS_PROXY_URL?.trim();
-  if (proxy) {
-    // Ensure proxy URL has a scheme (fetch requires a full URL)
-    if (!/^https?:\/\//i.test(proxy)) {
-      proxy = `https://${proxy}`;
-    }
-    const proxyBase = proxy.replace(/\/$/, "");
-    const proxyUrl = `${proxyBase}?url=${encodeURIComponent(url)}`;
-    console.log(`[NBA] Using proxy: ${proxyBase} (request to stats.nba.com)`);
-    return fetch(proxyUrl, {
-      ...init,
-      headers: { Accept: "application/json", ...init?.headers },
+export function nbaErrorStatus(error: NbaError): number {
+  return NBA_ERROR_STATUS[error.kind];
+}
+
+/**
+ * JSON error body shared by the routes: `{ error: message, code: kind, ...details }`
+ */
+export function nbaErrorBody({ kind, message, ...details }: NbaError) {
+  return { error: message, code: kind, ...details };
+}
+
+// Thrown inside this module and turned back into an NbaError at the public functions
+class NbaFetchError extends Error {
+  constructor(readonly error: NbaError) {
+    super(error.message);
+  }
+}
+
+function upstreamBlocked(status: number): NbaError {
+  const message =
+    status === 403
+      ? "NBA API blocked this request (proxy or origin may be blocked). Try Render or another host for the proxy."
+      : status === 502
+        ? "Proxy could not reach NBA API. Check proxy logs."
+        : status === 429
+          ? "NBA API is rate limiting requests. Please wait a moment."
+          : `NBA API request failed: ${status}`;
+  return { kind: "UpstreamBlocked", message, status };
+}
+
+/**
+ * Classify anything thrown while talking to NBA Stats
+ */
+function toNbaError(error: unknown): NbaError {
+  if (error instanceof NbaFetchError) {
+    return error.error;
+  }
+  // DOMException isn't an Error subclass in every runtime, so match on the name alone
+  const name = (error as { name?: unknown } | null)?.name;
+  if (name === "TimeoutError" || name === "AbortError") {
+    return { kind: "UpstreamTimeout", message: "NBA API took too long to respond. Please try again." };
+  }
+  if (error instanceof SchemaDriftError) {
+    log.error("Schema drift", { endpoint: error.endpoint, result_set: error.resultSet, problems: error.problems });
+    return { kind: "SchemaChanged", message: "NBA API returned data in an unexpected format.", endpoint: error.endpoint };
+  }
+  if (error instanceof SyntaxError) {
+    return { kind: "SchemaChanged", message: "NBA API returned data in an unexpected format.", endpoint: "unknown" };
+  }
+  log.error("Request failed", { error });
+  return { kind: "UpstreamBlocked", message: "Could not reach NBA API. Please try again later.", status: 0 };
+}
+
+/**
+ * Fetch from NBA Stats API through the response cache (see lib/cache.ts), so repeat lookups
+ * skip the round trip and cached data keeps being served while NBA.com is blocking or down.
+ * Misses go through lib/upstream.ts (timeouts, retries, proxy failover) carrying the current
+ * request ID; the path that served the request is recorded for the calling route's trace.
+ */
+async function nbaFetch(url: string, init?: UpstreamInit): Promise<Response> {
+  const response = await cachedFetch(url, getCachePolicy(url), () =>
+    fetchUpstream(url, { ...init, requestId: getRequestId() }),
+  );
+  const servedBy = response.headers.get(SERVED_BY_HEADER) as UpstreamPath | null;
+  const cacheStatus = response.headers.get("X-Cache");
+  recordUpstreamPath(cacheStatus === "MISS" ? (servedBy ?? "direct") : "cache");
+
+  // Payloads can be megabytes and include player data; only sample them when debugging
+  if (log.isEnabled("debug")) {
+    const body = await response.clone().text();
+    log.debug("NBA Stats response", {
+      url,
+      status: response.status,
+      cache: cacheStatus,
+      served_by: servedBy,
+      bytes: body.length,
+      sample: body.slice(0, 500),
     });
   }
-  console.log("[NBA] Direct request (no proxy)");
-  return fetch(url, {
-    ...init,
-    headers: { ...NBA_HEADERS, ...init?.headers },
-  });
+  return response;
 }
 
+// How long the player index is reused before it is rebuilt from commonallplayers
+const PLAYER_INDEX_TTL_MS = 6 * 60 * 60 * 1000;
+
+let playerIndex: Promise<PlayerIndex> | undefined;
+
 /**
- * Search for players by name
+ * Load the player index once from commonallplayers (every player, active and retired).
+ * Concurrent searches share the load; a failed load is retried on the next search.
  */
-export async function searchPlayers(
-  query: string,
-): Promise<{ data: Player[]; error?: string }> {
-  if (!query.trim()) {
-    return { data: [] };
+async function getPlayerIndex(): Promise<PlayerIndex> {
+  if (playerIndex) {
+    const index = await playerIndex.catch(() => undefined);
+    if (index && Date.now() - index.builtAt < PLAYER_INDEX_TTL_MS) {
+      return index;
+    }
+    playerIndex = undefined;
   }
 
-  try {
+  const loading = (async () => {
     // NBA Stats API endpoint for all players
     const url = new URL(`${NBA_STATS_BASE}/commonallplayers`);
     url.searchParams.set("LeagueID", "00"); // NBA
     url.searchParams.set("Season", getCurrentSeason());
-    url.searchParams.set("IsOnlyCurrentSeason", "0"); // Get all players, we'll filter active ones
+    url.searchParams.set("IsOnlyCurrentSeason", "0"); // Get all players, active and inactive
+
+    log.info("Loading player index", { url: url.toString() });
 
-    console.log(`Fetching players from NBA Stats API: ${url.toString()}`);
-    
     const response = await nbaFetch(url.toString(), {
       next: { revalidate: 3600 },
     });
 
-    console.log(`NBA Stats API response status: ${response.status} ${response.statusText}`);
-
     if (!response.ok) {
-      const errorText = await response.text().catch(() => "");
-      console.error(`NBA Stats API error: ${response.status} ${response.statusText}`, errorText.substring(0, 500));
-      // Surface proxy/NBA errors so client can show a helpful message
-      const msg = response.status === 403
-        ? "NBA API blocked this request (proxy or origin may be blocked). Try Render or another host for the proxy."
-        : response.status === 502
-          ? "Proxy could not reach NBA API. Check proxy logs."
-          : `Search failed: ${response.status}`;
-      return { data: [], error: msg };
+      log.error("NBA Stats API error", { endpoint: "commonallplayers", status: response.status });
+      throw new NbaFetchError(upstreamBlocked(response.status));
     }
 
-    const rawData = await response.json();
-    console.log(`NBA Stats API raw response keys:`, Object.keys(rawData));
-    console.log(`NBA Stats API raw response sample:`, JSON.stringify(rawData).substring(0, 1000));
-
-    const data = rawData as {
-      resultSets?: Array<{
-        name?: string;
-        headers: string[];
-        rowSet: Array<Array<unknown>>;
-      }>;
-      resource?: string;
-      parameters?: unknown;
-    };
+    const rows = validateResultSet(await response.json(), "commonallplayers", "CommonAllPlayers");
 
-    console.log(`NBA Stats API response structure:`, {
-      hasResultSets: !!data.resultSets,
-      resultSetsLength: data.resultSets?.length || 0,
-      firstResultSetName: data.resultSets?.[0]?.name,
-      firstResultSetRows: data.resultSets?.[0]?.rowSet?.length || 0,
-    });
+    if (rows.length === 0) {
+      throw new SchemaDriftError("commonallplayers", "CommonAllPlayers", ["no rows"]);
+    }
+
+    log.info("Indexed players", { count: rows.length });
+    return buildPlayerIndex(rows);
+  })();
+
+  playerIndex = loading;
+  loading.catch(() => {
+    if (playerIndex === loading) playerIndex = undefined;
+  });
+  return loading;
+}
+
+/**
+ * Search for players by name.
+ * Accent-insensitive and typo-tolerant; also matches initials ("SGA") and nicknames ("Joker").
+ * Results are ranked best match first, with match highlights on `display_name`.
+ * `total` is the number of matches across all pages.
+ */
+export async function searchPlayers(
+  query: string,
+  { active = "current", page = 1, perPage = 25 }: SearchOptions = {},
+): Promise<NbaResult<{ players: PlayerSearchResult[]; total: number }>> {
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(perPage) || perPage < 1) {
+    return { error: { kind: "InvalidInput", message: "Invalid page or per_page" } };
+  }
+  if (!query.trim()) {
+    return { data: { players: [], total: 0 } };
+  }
+
+  try {
+    const index = await getPlayerIndex();
+    const results = searchPlayerIndex(index, query, { active });
+    const start = (page - 1) * perPage;
+
+    log.debug("Searched players", { query, active, count: results.length });
+    return { data: { players: results.slice(start, start + perPage), total: results.length } };
+  } catch (error) {
+    return { error: toNbaError(error) };
+  }
+}
+
+/**
+ * Fetch playerdashboardbygeneralsplits for a player and parse every result set.
+ * Throws an NbaFetchError when the request fails.
+ */
+async function fetchPlayerDashboard(
+  playerId: number,
+  filters: DashboardFilters,
+): Promise<Partial<Record<DashboardResultSetName, DashboardRow[]>>> {
+  const response = await nbaFetch(buildPlayerDashboardUrl(playerId, filters).toString(), {
+    next: { revalidate: 3600 },
+  });
+
+  if (!response.ok) {
+    log.error("NBA Stats API error", { endpoint: "playerdashboardbygeneralsplits", status: response.status });
+    throw new NbaFetchError(upstreamBlocked(response.status));
+  }
+
+  return parsePlayerDashboard(await response.json());
+}
+
+/**
+ * Get a player's name from the commonplayerinfo endpoint.
+ * Falls back to an empty name so stats can still be shown.
+ */
+async function fetchPlayerInfo(playerId: number): Promise<Player> {
+  const playerInfoUrl = new URL(`${NBA_STATS_BASE}/commonplayerinfo`);
+  playerInfoUrl.searchParams.set("PlayerID", String(playerId));
+
+  const playerResponse = await nbaFetch(playerInfoUrl.toString(), {
+    next: { revalidate: 3600 },
+  });
+
+  const player: Player = {
+    id: playerId,
+    first_name: "",
+    last_name: "",
+  };
+
+  if (!playerResponse.ok) {
+    return player;
+  }
+
+  let info;
+  try {
+    info = validateResultSet(await playerResponse.json(), "commonplayerinfo", "CommonPlayerInfo")[0];
+  } catch (error) {
+    // The name is cosmetic; report the drift but still return the stats
+    log.warn("Player info unavailable", { player_id: playerId, error });
+    return player;
+  }
+  if (!info) {
+    return player;
+  }
+
+  const teamName = [info.TEAM_CITY, info.TEAM_NAME].filter(Boolean).join(" ");
+
+  return {
+    id: playerId,
+    first_name: info.FIRST_NAME,
+    last_name: info.LAST_NAME,
+    ...(info.DISPLAY_FIRST_LAST && { display_name: info.DISPLAY_FIRST_LAST }),
+    team_id: info.TEAM_ID ?? 0,
+    team_abbreviation: String(info.TEAM_ABBREVIATION ?? ""),
+    team_name: teamName,
+    from_year: Number(info.FROM_YEAR) || undefined,
+    to_year: Number(info.TO_YEAR) || undefined,
+  };
+}
+
+function noSeasonData(season: string, seasonType: SeasonType, reason = "no games", subject = "Player"): NbaError {
+  return {
+    kind: "NoSeasonData",
+    message: `${subject} has ${reason} in the ${season} ${seasonType === "PlayIn" ? "Play-In" : seasonType}.`,
+    season,
+    season_type: seasonType,
+  };
+}
+
+/**
+ * Load PPG/FGA for one season. Returns NoSeasonData when the player has no games (so the
+ * caller may fall back) or no field goal attempts; throws on upstream and schema errors.
+ */
+async function loadSeasonStats(
+  playerId: number,
+  season: string,
+  seasonType: SeasonType,
+  requestedSeason: string,
+): Promise<NbaResult<PlayerStats>> {
+  const dashboard = await fetchPlayerDashboard(playerId, { season, seasonType });
+
+  // playerdashboardbygeneralsplits returns OverallPlayerDashboard (aggregated season stats), not SeasonTotalsRegularSeason
+  if (!dashboard.OverallPlayerDashboard) {
+    throw new SchemaDriftError("playerdashboardbygeneralsplits", "OverallPlayerDashboard", [
+      `result set missing (got ${Object.keys(dashboard).join(", ") || "none"})`,
+    ]);
+  }
+
+  const overall = dashboard.OverallPlayerDashboard[0];
+
+  if (!overall) {
+    return { error: noSeasonData(season, seasonType) };
+  }
+
+  // Validated as numbers by parsePlayerDashboard
+  const pts = overall.PTS;
+  const fga = overall.FGA;
+
+  if (fga === 0) {
+    return { error: noSeasonData(season, seasonType, "no field goal attempts") };
+  }
+
+  const player = await fetchPlayerInfo(playerId);
+  const line = { pts, fga, fgm: overall.FGM, fg3m: overall.FG3M, fg3a: overall.FG3A, ftm: overall.FTM, fta: overall.FTA };
+
+  return {
+    data: {
+      player,
+      pts: Number(pts.toFixed(1)),
+      fga: Number(fga.toFixed(1)),
+      fgm: Number(line.fgm.toFixed(1)),
+      fg3m: Number(line.fg3m.toFixed(1)),
+      fg3a: Number(line.fg3a.toFixed(1)),
+      ftm: Number(line.ftm.toFixed(1)),
+      fta: Number(line.fta.toFixed(1)),
+      ts_pct: calculateTrueShooting(line)?.tsPct ?? 0, // 0 without points
+      season,
+      season_type: seasonType,
+      requested_season: requestedSeason,
+    },
+  };
+}
+
+/**
+ * Fetch season averages for a player by ID
+ * Returns PPG and FGA per game for the requested season (current season by default).
+ * Only the default season falls back to the previous one; the returned `season` says which was used.
+ */
+export async function fetchPlayerSeasonAverages(
+  playerId: number,
+  { season: requestedSeason, seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<PlayerStats>> {
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return { error: { kind: "InvalidInput", message: "Invalid player ID" } };
+  }
+
+  try {
+    const season = requestedSeason ?? getCurrentSeason();
+    log.debug("Fetching season stats", { player_id: playerId, season, season_type: seasonType });
 
-    if (!data.resultSets || data.resultSets.length === 0) {
-      console.error("No resultSets in NBA Stats API response. Full response:", JSON.stringify(data).substring(0, 500));
-      return { data: [] };
+    const stats = await loadSeasonStats(playerId, season, seasonType, season);
+    if (stats.error?.kind !== "NoSeasonData" || requestedSeason) {
+      return stats;
     }
 
-    const players = data.resultSets[0];
-    
-    if (!players || !players.rowSet || players.rowSet.length === 0) {
-      console.error("No player rows in first resultSet");
-      return { data: [] };
+    // Try previous season as fallback
+    const prevSeason = getPreviousSeason();
+    log.debug("No games yet, trying previous season", { player_id: playerId, season: prevSeason });
+    return loadSeasonStats(playerId, prevSeason, seasonType, season);
+  } catch (error) {
+    return { error: toNbaError(error) };
+  }
+}
+
+// Split groups in display order
+const SPLIT_GROUPS: SplitGroup[] = [
+  "Location",
+  "Outcome",
+  "Last N Games",
+  "Month",
+  "All-Star Break",
+  "Starting Position",
+  "Days Rest",
+];
+
+// Dashboard result set behind each split group
+const SPLIT_RESULT_SETS: Record<Exclude<SplitGroup, "Last N Games">, DashboardResultSetName> = {
+  Location: "LocationPlayerDashboard",
+  Outcome: "WinsLossesPlayerDashboard",
+  Month: "MonthPlayerDashboard",
+  "All-Star Break": "PrePostAllStarPlayerDashboard",
+  "Starting Position": "StartingPosition",
+  "Days Rest": "DaysRestPlayerDashboard",
+};
+
+// The dashboard has no "recent form" result set, so these are separate LastNGames queries
+const LAST_N_GAMES = [5, 10];
+
+function toSplit(group: SplitGroup, label: string, row: DashboardRow): PlayerSplit {
+  return {
+    group,
+    label,
+    gp: row.GP,
+    pts: Number(row.PTS.toFixed(1)),
+    fga: Number(row.FGA.toFixed(1)),
+  };
+}
+
+/**
+ * Fetch per-game PTS/FGA for every general split of a season (home/away, wins/losses,
+ * months, last N games, ...). Returns NoSeasonData when the season has no data for the player.
+ */
+export async function fetchPlayerSplits(
+  playerId: number,
+  { season = getCurrentSeason(), seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<PlayerSplits>> {
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return { error: { kind: "InvalidInput", message: "Invalid player ID" } };
+  }
+
+  try {
+    const [dashboard, ...lastN] = await Promise.all([
+      fetchPlayerDashboard(playerId, { season, seasonType }),
+      ...LAST_N_GAMES.map((lastNGames) =>
+        fetchPlayerDashboard(playerId, { season, seasonType, lastNGames }),
+      ),
+    ]);
+
+    if (!dashboard.OverallPlayerDashboard) {
+      throw new SchemaDriftError("playerdashboardbygeneralsplits", "OverallPlayerDashboard", [
+        `result set missing (got ${Object.keys(dashboard).join(", ") || "none"})`,
+      ]);
     }
-    console.log(`Processing ${players.rowSet.length} total players from API`);
-    const queryLower = query.toLowerCase().trim();
-    console.log(`Searching for query: "${queryLower}"`);
-
-    // Filter players by name
-    // Headers: ["PERSON_ID","DISPLAY_LAST_COMMA_FIRST","DISPLAY_FIRST_LAST","ROSTERSTATUS","FROM_YEAR","TO_YEAR","PLAYERCODE","PLAYER_SLUG","TEAM_ID","TEAM_CITY","TEAM_NAME","TEAM_ABBREVIATION","TEAM_CODE","TEAM_SLUG","GAMES_PLAYED_FLAG","OTHERLEAGUE_EXPERIENCE_CH"]
-    const filtered: Player[] = players.rowSet
-      .map((row) => {
-        const playerId = row[0] as number;
-        const displayLastCommaFirst = row[1] as string; // "Last, First"
-        const displayFirstLast = row[2] as string; // "First Last"
-        const rosterStatus = row[3] as number; // 1 for active, 0 for inactive
-        const gamesPlayedFlag = row[14] as string; // "Y" if player has games this season
-
-        // Filter for active players (on roster or has played games this season)
-        const isActive = rosterStatus === 1 || gamesPlayedFlag === "Y";
-        
-        if (!isActive) return null;
-
-        // Use both name formats for matching
-        const lastCommaFirst = (displayLastCommaFirst || "").toLowerCase();
-        const firstLast = (displayFirstLast || "").toLowerCase();
-
-        // Check if query matches either format
-        const matches =
-          firstLast.includes(queryLower) ||
-          lastCommaFirst.includes(queryLower) ||
-          firstLast.split(" ").some((part) => part.includes(queryLower)) ||
-          lastCommaFirst.split(", ").some((part) => part.includes(queryLower));
-
-        if (!matches) return null;
-
-        // Parse name from "Last, First" format
-        const nameParts = displayLastCommaFirst.split(",").map((s) => s.trim());
-        const lastName = nameParts[0] || "";
-        const firstName = nameParts[1] || "";
-
-        return {
-          id: playerId,
-          first_name: firstName,
-          last_name: lastName,
-          display_name: displayFirstLast || displayLastCommaFirst,
-        } as Player;
-      })
-      .filter((p): p is Player => p !== null)
-      .slice(0, 25); // Limit to 25 results
-
-    console.log(`Filtered to ${filtered.length} matching players for query "${query}"`);
-    if (filtered.length > 0) {
-      console.log(`Sample matches:`, filtered.slice(0, 3).map(p => `${p.first_name} ${p.last_name}`));
+
+    if (dashboard.OverallPlayerDashboard.length === 0) {
+      log.warn("No splits", { player_id: playerId, season, season_type: seasonType });
+      return { error: noSeasonData(season, seasonType) };
     }
 
-    return { data: filtered };
+    const splits = SPLIT_GROUPS.flatMap((group) => {
+      if (group === "Last N Games") {
+        return LAST_N_GAMES.flatMap((n, i) => {
+          const row = lastN[i]?.OverallPlayerDashboard?.[0];
+          return row ? [toSplit(group, `Last ${n}`, row)] : [];
+        });
+      }
+      return (dashboard[SPLIT_RESULT_SETS[group]] ?? []).map((row) => toSplit(group, String(row.GROUP_VALUE), row));
+    });
+
+    return {
+      data: {
+        player_id: playerId,
+        season,
+        season_type: seasonType,
+        splits,
+      },
+    };
   } catch (error) {
-    console.error("NBA Stats search error:", error);
-    return { data: [] };
+    return { error: toNbaError(error) };
   }
 }
 
 /**
- * Get current NBA season string (e.g., "2024-25")
+ * Fetch every game a player played in a season from the playergamelog endpoint.
+ * A season without games returns an empty list.
  */
-function getCurrentSeason(): string {
-  const currentYear = new Date().getFullYear();
-  const month = new Date().getMonth() + 1;
-  // NBA season starts in October
-  if (month >= 10) {
-    return `${currentYear}-${String(currentYear + 1).slice(-2)}`;
-  } else {
-    return `${currentYear - 1}-${String(currentYear).slice(-2)}`;
+export async function fetchPlayerGameLog(
+  playerId: number,
+  { season = getCurrentSeason(), seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<PlayerGameLog>> {
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return { error: { kind: "InvalidInput", message: "Invalid player ID" } };
+  }
+
+  try {
+    const url = new URL(`${NBA_STATS_BASE}/playergamelog`);
+    url.searchParams.set("PlayerID", String(playerId));
+    url.searchParams.set("Season", season);
+    url.searchParams.set("SeasonType", seasonType);
+    url.searchParams.set("LeagueID", "00");
+    url.searchParams.set("DateFrom", "");
+    url.searchParams.set("DateTo", "");
+
+    const response = await nbaFetch(url.toString(), {
+      next: { revalidate: 3600 },
+    });
+
+    if (!response.ok) {
+      log.error("NBA Stats API error", { endpoint: "playergamelog", status: response.status });
+      throw new NbaFetchError(upstreamBlocked(response.status));
+    }
+
+    const rows = validateResultSet(await response.json(), "playergamelog", "PlayerGameLog");
+
+    return {
+      data: {
+        player_id: playerId,
+        season,
+        season_type: seasonType,
+        games: rows.map((row) => ({
+          game_id: String(row.Game_ID),
+          game_date: row.GAME_DATE,
+          matchup: row.MATCHUP,
+          wl: row.WL === "W" || row.WL === "L" ? row.WL : null,
+          min: row.MIN ?? 0,
+          pts: row.PTS,
+          fgm: row.FGM,
+          fga: row.FGA,
+          fg3m: row.FG3M,
+          fg3a: row.FG3A,
+          ftm: row.FTM,
+          fta: row.FTA,
+        })),
+      },
+    };
+  } catch (error) {
+    return { error: toNbaError(error) };
   }
 }
 
+// playercareerstats result sets used for the career trend
+const CAREER_RESULT_SETS: Array<[ResultSetName<"playercareerstats">, CareerSeason["season_type"]]> = [
+  ["SeasonTotalsRegularSeason", "Regular Season"],
+  ["SeasonTotalsPostSeason", "Playoffs"],
+];
+
 /**
- * Get previous NBA season string
+ * Fetch per-game PTS/FGA for every season of a player's career (regular season and playoffs)
+ * from the playercareerstats endpoint. Traded seasons use the combined "TOT" row; a player
+ * without games gets an empty list.
  */
-function getPreviousSeason(): string {
-  const currentYear = new Date().getFullYear();
-  const month = new Date().getMonth() + 1;
-  if (month >= 10) {
-    return `${currentYear - 1}-${String(currentYear).slice(-2)}`;
-  } else {
-    return `${currentYear - 2}-${String(currentYear - 1).slice(-2)}`;
+export async function fetchPlayerCareer(playerId: number): Promise<NbaResult<PlayerCareer>> {
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return { error: { kind: "InvalidInput", message: "Invalid player ID" } };
+  }
+
+  try {
+    const url = new URL(`${NBA_STATS_BASE}/playercareerstats`);
+    url.searchParams.set("PlayerID", String(playerId));
+    url.searchParams.set("PerMode", "PerGame");
+    url.searchParams.set("LeagueID", "00");
+
+    const response = await nbaFetch(url.toString(), {
+      next: { revalidate: 3600 },
+    });
+
+    if (!response.ok) {
+      log.error("NBA Stats API error", { endpoint: "playercareerstats", status: response.status });
+      throw new NbaFetchError(upstreamBlocked(response.status));
+    }
+
+    const data = await response.json();
+    const seasons: CareerSeason[] = [];
+
+    for (const [name, seasonType] of CAREER_RESULT_SETS) {
+      const rows = validateResultSet(data, "playercareerstats", name);
+      // One row per team per season, plus a "TOT" row for traded players
+      const bySeason = new Map<string, (typeof rows)[number]>();
+      for (const row of rows) {
+        const season = row.SEASON_ID;
+        if (!bySeason.has(season) || row.TEAM_ABBREVIATION === "TOT") {
+          bySeason.set(season, row);
+        }
+      }
+      for (const [season, row] of bySeason) {
+        seasons.push({
+          season,
+          season_type: seasonType,
+          team: row.TEAM_ABBREVIATION ?? "",
+          gp: row.GP,
+          pts: Number((row.PTS ?? 0).toFixed(1)),
+          fga: Number((row.FGA ?? 0).toFixed(1)),
+        });
+      }
+    }
+
+    if (seasons.length === 0) {
+      log.warn("No career stats", { player_id: playerId });
+    }
+
+    seasons.sort((a, b) => a.season.localeCompare(b.season) || a.season_type.localeCompare(b.season_type));
+    return { data: { player_id: playerId, seasons } };
+  } catch (error) {
+    return { error: toNbaError(error) };
   }
 }
 
 /**
- * Try fetching stats from previous season as fallback
+ * Fetch per-game stats for every player in the league in one request (leaguedashplayerstats).
+ * Team and position filters are applied by NBA; min games/minutes are left to the caller.
  */
-async function tryPreviousSeason(playerId: number): Promise<PlayerStats | null> {
-  const prevSeason = getPreviousSeason();
-  console.log(`Trying previous season ${prevSeason} for player ${playerId}`);
-  
+export async function fetchLeaguePlayerStats({
+  season = getCurrentSeason(),
+  seasonType = "Regular Season",
+  teamId = 0,
+  position,
+}: LeagueStatsOptions = {}): Promise<NbaResult<LeaguePlayerStats[]>> {
   try {
-    const url = new URL(`${NBA_STATS_BASE}/playerdashboardbygeneralsplits`);
+    const url = new URL(`${NBA_STATS_BASE}/leaguedashplayerstats`);
     url.searchParams.set("MeasureType", "Base");
     url.searchParams.set("PerMode", "PerGame");
     url.searchParams.set("PlusMinus", "N");
     url.searchParams.set("PaceAdjust", "N");
     url.searchParams.set("Rank", "N");
     url.searchParams.set("LeagueID", "00");
-    url.searchParams.set("Season", prevSeason);
-    url.searchParams.set("SeasonType", "Regular Season");
-    url.searchParams.set("PlayerID", String(playerId));
+    url.searchParams.set("Season", season);
+    url.searchParams.set("SeasonType", seasonType);
+    url.searchParams.set("TeamID", String(teamId));
+    url.searchParams.set("PlayerPosition", position ?? "");
     url.searchParams.set("Outcome", "");
     url.searchParams.set("Location", "");
     url.searchParams.set("Month", "0");
@@ -241,127 +778,173 @@ async function tryPreviousSeason(playerId: number): Promise<PlayerStats | null>
     url.searchParams.set("OpponentTeamID", "0");
     url.searchParams.set("VsConference", "");
     url.searchParams.set("VsDivision", "");
+    url.searchParams.set("Conference", "");
+    url.searchParams.set("Division", "");
     url.searchParams.set("GameSegment", "");
+    url.searchParams.set("GameScope", "");
     url.searchParams.set("Period", "0");
     url.searchParams.set("ShotClockRange", "");
     url.searchParams.set("LastNGames", "0");
+    url.searchParams.set("PORound", "0");
+    url.searchParams.set("PlayerExperience", "");
+    url.searchParams.set("StarterBench", "");
+    url.searchParams.set("College", "");
+    url.searchParams.set("Country", "");
+    url.searchParams.set("DraftPick", "");
+    url.searchParams.set("DraftYear", "");
+    url.searchParams.set("Height", "");
+    url.searchParams.set("Weight", "");
+    url.searchParams.set("TwoWay", "0");
 
     const response = await nbaFetch(url.toString(), {
       next: { revalidate: 3600 },
     });
 
     if (!response.ok) {
-      return null;
+      log.error("NBA Stats API error", { endpoint: "leaguedashplayerstats", status: response.status });
+      throw new NbaFetchError(upstreamBlocked(response.status));
     }
 
-    const data = (await response.json()) as {
-      resultSets: Array<{
-        name: string;
-        headers: string[];
-        rowSet: Array<Array<unknown>>;
-      }>;
-    };
+    const rows = validateResultSet(await response.json(), "leaguedashplayerstats", "LeagueDashPlayerStats");
 
-    const seasonTotals = data.resultSets?.find(
-      (rs) => rs.name === "OverallPlayerDashboard",
-    );
+    return {
+      data: rows.map((row) => ({
+        player_id: row.PLAYER_ID,
+        player_name: row.PLAYER_NAME,
+        team_id: row.TEAM_ID,
+        team_abbreviation: row.TEAM_ABBREVIATION,
+        gp: row.GP,
+        min: Number(row.MIN.toFixed(1)),
+        pts: Number(row.PTS.toFixed(1)),
+        fga: Number(row.FGA.toFixed(1)),
+      })),
+    };
+  } catch (error) {
+    return { error: toNbaError(error) };
+  }
+}
 
-    if (!seasonTotals || !seasonTotals.rowSet || seasonTotals.rowSet.length === 0) {
-      return null;
-    }
+/**
+ * Fetch a team's roster (commonteamroster) with each player's per-game stats for the team
+ * (teamplayerdashboard). Players who left mid-season are not on the roster and are dropped;
+ * rostered players without games get zeros. Returns NoSeasonData when the team has no games.
+ */
+export async function fetchTeamRoster(
+  teamId: number,
+  { season = getCurrentSeason(), seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<TeamRoster>> {
+  const team = getTeam(teamId);
+  if (!team) {
+    return { error: { kind: "InvalidInput", message: "Invalid team ID" } };
+  }
 
-    const row = seasonTotals.rowSet[0];
-    const headers = seasonTotals.headers;
-    const ptsIndex = headers.indexOf("PTS");
-    const fgaIndex = headers.indexOf("FGA");
+  try {
+    const rosterUrl = new URL(`${NBA_STATS_BASE}/commonteamroster`);
+    rosterUrl.searchParams.set("TeamID", String(teamId));
+    rosterUrl.searchParams.set("Season", season);
+    rosterUrl.searchParams.set("LeagueID", "00");
 
-    if (ptsIndex === -1 || fgaIndex === -1) {
-      return null;
-    }
+    const statsUrl = new URL(`${NBA_STATS_BASE}/teamplayerdashboard`);
+    statsUrl.searchParams.set("TeamID", String(teamId));
+    statsUrl.searchParams.set("Season", season);
+    statsUrl.searchParams.set("SeasonType", seasonType);
+    statsUrl.searchParams.set("MeasureType", "Base");
+    statsUrl.searchParams.set("PerMode", "PerGame");
+    statsUrl.searchParams.set("PlusMinus", "N");
+    statsUrl.searchParams.set("PaceAdjust", "N");
+    statsUrl.searchParams.set("Rank", "N");
+    statsUrl.searchParams.set("LeagueID", "00");
+    statsUrl.searchParams.set("Outcome", "");
+    statsUrl.searchParams.set("Location", "");
+    statsUrl.searchParams.set("Month", "0");
+    statsUrl.searchParams.set("SeasonSegment", "");
+    statsUrl.searchParams.set("DateFrom", "");
+    statsUrl.searchParams.set("DateTo", "");
+    statsUrl.searchParams.set("OpponentTeamID", "0");
+    statsUrl.searchParams.set("VsConference", "");
+    statsUrl.searchParams.set("VsDivision", "");
+    statsUrl.searchParams.set("GameSegment", "");
+    statsUrl.searchParams.set("Period", "0");
+    statsUrl.searchParams.set("LastNGames", "0");
+    statsUrl.searchParams.set("PORound", "0");
 
-    const pts = Number(row[ptsIndex]);
-    const fga = Number(row[fgaIndex]);
+    const [rosterResponse, statsResponse] = await Promise.all([
+      nbaFetch(rosterUrl.toString(), { next: { revalidate: 3600 } }),
+      nbaFetch(statsUrl.toString(), { next: { revalidate: 3600 } }),
+    ]);
 
-    if (isNaN(pts) || isNaN(fga) || fga === 0) {
-      return null;
+    for (const [endpoint, response] of [["commonteamroster", rosterResponse], ["teamplayerdashboard", statsResponse]] as const) {
+      if (!response.ok) {
+        log.error("NBA Stats API error", { endpoint, status: response.status });
+        throw new NbaFetchError(upstreamBlocked(response.status));
+      }
     }
 
-    // Get player info
-    const playerInfoUrl = new URL(`${NBA_STATS_BASE}/commonplayerinfo`);
-    playerInfoUrl.searchParams.set("PlayerID", String(playerId));
-
-    const playerResponse = await nbaFetch(playerInfoUrl.toString(), {
-      next: { revalidate: 3600 },
-    });
+    const roster = validateResultSet(await rosterResponse.json(), "commonteamroster", "CommonTeamRoster");
+    const stats = validateResultSet(await statsResponse.json(), "teamplayerdashboard", "PlayersSeasonTotals");
 
-    let player: Player = {
-      id: playerId,
-      first_name: "",
-      last_name: "",
-    };
-
-    if (playerResponse.ok) {
-      const playerData = (await playerResponse.json()) as {
-        resultSets: Array<{
-          headers: string[];
-          rowSet: Array<Array<unknown>>;
-        }>;
-      };
-
-      if (
-        playerData.resultSets &&
-        playerData.resultSets.length > 0 &&
-        playerData.resultSets[0].rowSet.length > 0
-      ) {
-        const playerRow = playerData.resultSets[0].rowSet[0];
-        const playerHeaders = playerData.resultSets[0].headers;
-        const firstNameIndex = playerHeaders.indexOf("FIRST_NAME");
-        const lastNameIndex = playerHeaders.indexOf("LAST_NAME");
-
-        if (firstNameIndex !== -1 && lastNameIndex !== -1) {
-          player = {
-            id: playerId,
-            first_name: String(playerRow[firstNameIndex] || ""),
-            last_name: String(playerRow[lastNameIndex] || ""),
-          };
-        }
-      }
+    if (roster.length === 0 || stats.length === 0) {
+      return { error: noSeasonData(season, seasonType, "no games", `${team.city} ${team.name}`) };
     }
 
-    console.log(`Found stats for player ${playerId} from previous season ${prevSeason}`);
+    const statsById = new Map(stats.map((row) => [row.PLAYER_ID, row]));
+    const round = (value: number | undefined) => Number((value ?? 0).toFixed(1));
+
     return {
-      player,
-      pts: Number(pts.toFixed(1)),
-      fga: Number(fga.toFixed(1)),
+      data: {
+        team_id: teamId,
+        season,
+        season_type: seasonType,
+        players: roster.map((row) => {
+          const line = statsById.get(row.PLAYER_ID);
+          return {
+            player_id: row.PLAYER_ID,
+            player_name: row.PLAYER,
+            number: row.NUM ?? "",
+            position: row.POSITION ?? "",
+            gp: line?.GP ?? 0,
+            min: round(line?.MIN),
+            pts: round(line?.PTS),
+            fga: round(line?.FGA),
+            fgm: round(line?.FGM),
+            fg3m: round(line?.FG3M),
+            fg3a: round(line?.FG3A),
+            ftm: round(line?.FTM),
+            fta: round(line?.FTA),
+          };
+        }),
+      },
     };
   } catch (error) {
-    console.error(`Error fetching previous season stats:`, error);
-    return null;
+    return { error: toNbaError(error) };
   }
 }
 
 /**
- * Fetch season averages for a player by ID
- * Returns PPG and FGA per game for the current season
+ * Opponent field goal % allowed for one team, and the league-wide figure, from
+ * leaguedashteamstats (MeasureType=Opponent). NoSeasonData when the team has no games or
+ * the league has no attempts to compare against.
  */
-export async function fetchPlayerSeasonAverages(
-  playerId: number,
-): Promise<PlayerStats | null> {
-  try {
-    const season = getCurrentSeason();
-    console.log(`Fetching stats for player ${playerId} for season ${season}`);
+export async function fetchTeamDefense(
+  teamId: number,
+  { season = getCurrentSeason(), seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<TeamDefense>> {
+  const team = getTeam(teamId);
+  if (!team) {
+    return { error: { kind: "InvalidInput", message: "Invalid team ID" } };
+  }
 
-    // Use playerdashboardbygeneralsplits endpoint for season stats
-    const url = new URL(`${NBA_STATS_BASE}/playerdashboardbygeneralsplits`);
-    url.searchParams.set("MeasureType", "Base");
+  try {
+    const url = new URL(`${NBA_STATS_BASE}/leaguedashteamstats`);
+    url.searchParams.set("MeasureType", "Opponent");
     url.searchParams.set("PerMode", "PerGame");
     url.searchParams.set("PlusMinus", "N");
     url.searchParams.set("PaceAdjust", "N");
     url.searchParams.set("Rank", "N");
     url.searchParams.set("LeagueID", "00");
     url.searchParams.set("Season", season);
-    url.searchParams.set("SeasonType", "Regular Season");
-    url.searchParams.set("PlayerID", String(playerId));
+    url.searchParams.set("SeasonType", seasonType);
+    url.searchParams.set("TeamID", "0");
     url.searchParams.set("Outcome", "");
     url.searchParams.set("Location", "");
     url.searchParams.set("Month", "0");
@@ -371,114 +954,120 @@ export async function fetchPlayerSeasonAverages(
     url.searchParams.set("OpponentTeamID", "0");
     url.searchParams.set("VsConference", "");
     url.searchParams.set("VsDivision", "");
+    url.searchParams.set("Conference", "");
+    url.searchParams.set("Division", "");
     url.searchParams.set("GameSegment", "");
+    url.searchParams.set("GameScope", "");
     url.searchParams.set("Period", "0");
     url.searchParams.set("ShotClockRange", "");
     url.searchParams.set("LastNGames", "0");
+    url.searchParams.set("PORound", "0");
+    url.searchParams.set("PlayerExperience", "");
+    url.searchParams.set("PlayerPosition", "");
+    url.searchParams.set("StarterBench", "");
+    url.searchParams.set("TwoWay", "0");
 
     const response = await nbaFetch(url.toString(), {
       next: { revalidate: 3600 },
     });
 
     if (!response.ok) {
-      console.error(
-        `NBA Stats API error: ${response.status} ${response.statusText}`,
-      );
-      return null;
+      log.error("NBA Stats API error", { endpoint: "leaguedashteamstats", status: response.status });
+      throw new NbaFetchError(upstreamBlocked(response.status));
     }
 
-    const data = (await response.json()) as {
-      resultSets: Array<{
-        name: string;
-        headers: string[];
-        rowSet: Array<Array<unknown>>;
-      }>;
-    };
+    const rows = validateResultSet(await response.json(), "leaguedashteamstats", "LeagueDashTeamStats");
+    const row = rows.find((r) => r.TEAM_ID === teamId);
 
-    if (!data.resultSets || data.resultSets.length === 0) {
-      console.error(`No stats found for player ${playerId} for season ${season}`);
-      // Try previous season as fallback
-      return await tryPreviousSeason(playerId);
+    if (!row || row.GP === 0) {
+      return { error: noSeasonData(season, seasonType, "no games", `${team.city} ${team.name}`) };
     }
 
-    // playerdashboardbygeneralsplits returns OverallPlayerDashboard (aggregated season stats), not SeasonTotalsRegularSeason
-    const seasonTotals = data.resultSets.find(
-      (rs) => rs.name === "OverallPlayerDashboard",
-    );
+    const leagueFgm = rows.reduce((sum, r) => sum + r.OPP_FGM * r.GP, 0);
+    const leagueFga = rows.reduce((sum, r) => sum + r.OPP_FGA * r.GP, 0);
 
-    if (!seasonTotals || !seasonTotals.rowSet || seasonTotals.rowSet.length === 0) {
-      console.error(`No OverallPlayerDashboard for player ${playerId} for season ${season}. Result sets: ${data.resultSets.map((rs) => rs.name).join(", ")}`);
-      return await tryPreviousSeason(playerId);
+    if (leagueFga === 0) {
+      return { error: noSeasonData(season, seasonType, "no field goal attempts", "The league") };
     }
 
-    const row = seasonTotals.rowSet[0];
-    const headers = seasonTotals.headers;
-
-    const ptsIndex = headers.indexOf("PTS");
-    const fgaIndex = headers.indexOf("FGA");
-
-    if (ptsIndex === -1 || fgaIndex === -1) {
-      console.error(`Missing PTS or FGA in stats for player ${playerId}`);
-      return null;
-    }
+    return {
+      data: {
+        team_id: teamId,
+        gp: row.GP,
+        opp_fg_pct: row.OPP_FG_PCT,
+        league_opp_fg_pct: Number((leagueFgm / leagueFga).toFixed(3)),
+      },
+    };
+  } catch (error) {
+    return { error: toNbaError(error) };
+  }
+}
 
-    const pts = Number(row[ptsIndex]);
-    const fga = Number(row[fgaIndex]);
+/**
+ * A player's per-game scoring against one opponent (playerdashboardbygeneralsplits with
+ * OpponentTeamID). Having no games against them is not an error: `gp` is 0.
+ */
+export async function fetchOpponentSplit(
+  playerId: number,
+  opponentTeamId: number,
+  { season = getCurrentSeason(), seasonType = "Regular Season" }: SeasonOptions = {},
+): Promise<NbaResult<OpponentSplit>> {
+  if (!Number.isInteger(playerId) || playerId <= 0) {
+    return { error: { kind: "InvalidInput", message: "Invalid player ID" } };
+  }
+  if (!getTeam(opponentTeamId)) {
+    return { error: { kind: "InvalidInput", message: "Invalid opponent team ID" } };
+  }
 
-    if (isNaN(pts) || isNaN(fga) || fga === 0) {
-      console.error(`Invalid stats for player ${playerId}: pts=${pts}, fga=${fga}`);
-      return null;
-    }
+  try {
+    const dashboard = await fetchPlayerDashboard(playerId, { season, seasonType, opponentTeamId });
+    const overall = dashboard.OverallPlayerDashboard?.[0];
 
-    // Get player info from commonplayerinfo endpoint
-    const playerInfoUrl = new URL(`${NBA_STATS_BASE}/commonplayerinfo`);
-    playerInfoUrl.searchParams.set("PlayerID", String(playerId));
+    return {
+      data: {
+        opponent_team_id: opponentTeamId,
+        gp: overall?.GP ?? 0,
+        pts: Number((overall?.PTS ?? 0).toFixed(1)),
+        fga: Number((overall?.FGA ?? 0).toFixed(1)),
+      },
+    };
+  } catch (error) {
+    return { error: toNbaError(error) };
+  }
+}
 
-    const playerResponse = await nbaFetch(playerInfoUrl.toString(), {
-      next: { revalidate: 3600 },
-    });
+/**
+ * Everything needed to project a player against an opponent: the season baseline (with the
+ * usual fallback to last season), then the head-to-head split and the opponent's defense for
+ * the season the baseline came from.
+ */
+export async function fetchMatchupStats(
+  playerId: number,
+  opponentTeamId: number,
+  options: SeasonOptions = {},
+): Promise<NbaResult<MatchupStats>> {
+  if (!getTeam(opponentTeamId)) {
+    return { error: { kind: "InvalidInput", message: "Invalid opponent team ID" } };
+  }
 
-    let player: Player = {
-      id: playerId,
-      first_name: "",
-      last_name: "",
-    };
+  const baseline = await fetchPlayerSeasonAverages(playerId, options);
+  if (baseline.error !== undefined) {
+    return baseline;
+  }
 
-    if (playerResponse.ok) {
-      const playerData = (await playerResponse.json()) as {
-        resultSets: Array<{
-          headers: string[];
-          rowSet: Array<Array<unknown>>;
-        }>;
-      };
-
-      if (
-        playerData.resultSets &&
-        playerData.resultSets.length > 0 &&
-        playerData.resultSets[0].rowSet.length > 0
-      ) {
-        const playerRow = playerData.resultSets[0].rowSet[0];
-        const playerHeaders = playerData.resultSets[0].headers;
-        const firstNameIndex = playerHeaders.indexOf("FIRST_NAME");
-        const lastNameIndex = playerHeaders.indexOf("LAST_NAME");
-
-        if (firstNameIndex !== -1 && lastNameIndex !== -1) {
-          player = {
-            id: playerId,
-            first_name: String(playerRow[firstNameIndex] || ""),
-            last_name: String(playerRow[lastNameIndex] || ""),
-          };
-        }
-      }
-    }
+  const stats = baseline.data;
+  const seasonOptions = { season: stats.season, seasonType: stats.season_type };
+  const [split, defense] = await Promise.all([
+    fetchOpponentSplit(playerId, opponentTeamId, seasonOptions),
+    fetchTeamDefense(opponentTeamId, seasonOptions),
+  ]);
 
-    return {
-      player,
-      pts: Number(pts.toFixed(1)),
-      fga: Number(fga.toFixed(1)),
-    };
-  } catch (error) {
-    console.error("Error fetching player season averages:", error);
-    return null;
+  if (split.error !== undefined) {
+    return split;
   }
+  if (defense.error !== undefined && defense.error.kind !== "NoSeasonData") {
+    return defense;
+  }
+
+  return { data: { stats, split: split.data, defense: defense.data ?? null } };
 }
@@ -0,0 +1,359 @@
+/**
+ * OpenAPI document for /api/v1
+ * Built from the same constants the routes validate against, so limits and enums can't drift.
+ * Served at /api/v1/openapi.json.
+ */
+
+import { API_VERSION, DEFAULT_PER_PAGE, MAX_PER_PAGE, type ApiErrorCode } from "./api";
+import { EXPORT_FORMATS, MAX_EXPORT_IDS } from "./export";
+import {
+  DEFAULT_PER_PAGE as LEADERBOARD_DEFAULT_PER_PAGE,
+  MAX_PER_PAGE as LEADERBOARD_MAX_PER_PAGE,
+  LEADERBOARD_SORTS,
+  POSITIONS,
+} from "./leaderboard";
+import { ACTIVE_FILTERS } from "./nba";
+import { SEASON_TYPES } from "./seasons";
+import { DEFAULT_TARGET, MAX_TARGET, MIN_TARGET } from "./shots";
+
+type Schema = Record<string, unknown>;
+
+const ERROR_CODES: ApiErrorCode[] = [
+  "InvalidInput",
+  "NotFound",
+  "NoSeasonData",
+  "NoAttempts",
+  "UpstreamBlocked",
+  "UpstreamTimeout",
+  "SchemaChanged",
+];
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const number: Schema = { type: "number" };
+const integer: Schema = { type: "integer" };
+const string: Schema = { type: "string" };
+const boolean: Schema = { type: "boolean" };
+const nullable = (schema: Schema): Schema => ({ anyOf: [schema, { type: "null" }] });
+
+/** Object schema where every listed property is required */
+function object(properties: Record<string, Schema>, optional: string[] = []): Schema {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+// --- Parameters ---
+
+const idParam = (description: string) => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "integer", minimum: 1 },
+});
+
+const query = (name: string, description: string, schema: Schema) => ({ name, in: "query", description, schema });
+
+const seasonParams = [
+  query("season", "Season like 2024-25; defaults to the current season (or the last one before it has games)", {
+    type: "string",
+    pattern: "^\\d{4}-\\d{2}$",
+  }),
+  query("seasonType", "Play-In is accepted for PlayIn", { type: "string", enum: SEASON_TYPES, default: "Regular Season" }),
+];
+
+const targetParam = query("target", "Points to score", {
+  type: "integer",
+  minimum: MIN_TARGET,
+  maximum: MAX_TARGET,
+  default: DEFAULT_TARGET,
+});
+
+const leaderboardFilterParams = [
+  query("minGames", "Minimum games played", { type: "number", minimum: 0, default: 0 }),
+  query("minMinutes", "Minimum minutes per game", { type: "number", minimum: 0, default: 0 }),
+  query("team", "Team ID", { type: "integer" }),
+  query("position", "Position", { type: "string", enum: POSITIONS }),
+  query("sort", "Sort column", { type: "string", enum: LEADERBOARD_SORTS, default: "shots" }),
+  query("order", "Defaults to asc for shots, desc otherwise", { type: "string", enum: ["asc", "desc"] }),
+];
+
+const pageParams = (defaultPerPage: number, maxPerPage: number) => [
+  query("page", "1-based page", { type: "integer", minimum: 1, default: 1 }),
+  query("per_page", "Results per page", { type: "integer", minimum: 1, maximum: maxPerPage, default: defaultPerPage }),
+];
+
+// --- Responses ---
+
+// `otherContent`: formats served instead of the JSON envelope, keyed by media type
+function ok(description: string, data: Schema, meta: Schema = { type: "object" }, otherContent: Schema = {}) {
+  return {
+    description,
+    headers: {
+      ETag: { schema: string },
+      "Cache-Control": { schema: string },
+      "X-Request-Id": { schema: string },
+    },
+    content: { "application/json": { schema: object({ data, meta }) }, ...otherContent },
+  };
+}
+
+const errors = (...statuses: number[]) =>
+  Object.fromEntries([
+    ["304", { description: "Not modified (If-None-Match matched the ETag)" }],
+    ...statuses.map((status) => [
+      String(status),
+      { description: "Error", content: { "application/json": { schema: ref("Error") } } },
+    ]),
+  ]);
+
+// --- Schemas ---
+
+const schemas: Record<string, Schema> = {
+  Error: object({
+    error: {
+      ...object({ code: { type: "string", enum: ERROR_CODES }, message: string }),
+      additionalProperties: true,
+      description: "Some codes add details, e.g. season and season_type for NoSeasonData",
+    },
+  }),
+  PageMeta: object({
+    total_pages: integer,
+    current_page: integer,
+    next_page: nullable(integer),
+    per_page: integer,
+    total_count: integer,
+  }),
+  Team: object({ id: integer, abbreviation: string, city: string, name: string }),
+  Player: object(
+    {
+      id: integer,
+      first_name: string,
+      last_name: string,
+      display_name: string,
+      team_id: integer,
+      team_abbreviation: string,
+      team_name: string,
+      from_year: integer,
+      to_year: integer,
+    },
+    ["display_name", "team_id", "team_abbreviation", "team_name", "from_year", "to_year"],
+  ),
+  PlayerStats: {
+    ...object({
+      player: ref("Player"),
+      pts: number,
+      fga: number,
+      fgm: number,
+      fg3m: number,
+      fg3a: number,
+      ftm: number,
+      fta: number,
+      ts_pct: number,
+      season: string,
+      season_type: { type: "string", enum: SEASON_TYPES },
+      requested_season: string,
+    }),
+    description: "Per-game season averages; season differs from requested_season after a fallback",
+  },
+  ShotAttempts: object({ attempts: number, points: number }),
+  Shots: object({
+    player: ref("Player"),
+    season: string,
+    season_type: { type: "string", enum: SEASON_TYPES },
+    requested_season: string,
+    target: integer,
+    pts: number,
+    fga: number,
+    shots: { ...number, description: "Field goal attempts to reach target at PTS / FGA" },
+    points_per_shot: number,
+    true_shooting: {
+      ...object({
+        ts_pct: number,
+        fga: number,
+        ft_trips: number,
+        fta: number,
+        breakdown: object({ twos: ref("ShotAttempts"), threes: ref("ShotAttempts"), free_throws: ref("ShotAttempts") }),
+      }),
+      description: "The player's shot mix scaled to target, counting free-throw points separately",
+    },
+    matchup: nullable({
+      ...object({
+        opponent: ref("Team"),
+        shots: number,
+        points_per_shot: number,
+        defense_factor: { ...number, description: "Opponent FG% allowed / league; above 1 = easier to score on" },
+        split: object({ gp: integer, pts: number, fga: number }),
+        split_points_per_shot: nullable(number),
+        split_weight: { ...number, description: "Share of the projection taken from games against the opponent" },
+        small_sample: boolean,
+      }),
+      description: "Only with ?opponent=",
+    }),
+  }),
+  LeaderboardEntry: object({
+    rank: integer,
+    player_id: integer,
+    player_name: string,
+    team_id: integer,
+    team_abbreviation: string,
+    gp: integer,
+    min: number,
+    pts: number,
+    fga: number,
+    shots: number,
+    points_per_shot: number,
+  }),
+  ExportRow: object({
+    player_id: integer,
+    player_name: string,
+    team: string,
+    season: string,
+    season_type: { type: "string", enum: SEASON_TYPES },
+    target: integer,
+    pts: nullable(number),
+    fga: nullable(number),
+    points_per_shot: nullable(number),
+    shots: nullable(number),
+    error: { ...string, description: "Why the player has no numbers; empty otherwise" },
+  }),
+  RosterEntry: object({
+    player_id: integer,
+    player_name: string,
+    number: string,
+    position: string,
+    gp: integer,
+    min: number,
+    pts: number,
+    fga: number,
+    fgm: number,
+    fg3m: number,
+    fg3a: number,
+    ftm: number,
+    fta: number,
+    shots: nullable(number),
+    points_per_shot: nullable(number),
+    ts_pct: nullable(number),
+  }),
+};
+
+/**
+ * The OpenAPI 3.1 document for the v1 API
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "How Many Shots to Score 30",
+      version: API_VERSION,
+      description:
+        "How many shots NBA players need to reach a points target, from NBA Stats season averages. " +
+        "Every response is `{ data, meta }` or `{ error: { code, message } }`; successful responses carry an ETag.",
+    },
+    servers: [{ url: `/api/${API_VERSION}` }],
+    paths: {
+      "/players": {
+        get: {
+          summary: "Search players by name",
+          parameters: [
+            { ...query("q", "Part of the player's name", string), required: true },
+            query("active", "Which players to search", { type: "string", enum: ACTIVE_FILTERS, default: "current" }),
+            ...pageParams(DEFAULT_PER_PAGE, MAX_PER_PAGE),
+          ],
+          responses: {
+            200: ok("Matching players", { type: "array", items: ref("Player") }, ref("PageMeta")),
+            ...errors(400, 502, 504),
+          },
+        },
+      },
+      "/players/{id}": {
+        get: {
+          summary: "A player's season averages",
+          parameters: [idParam("NBA player ID"), ...seasonParams],
+          responses: { 200: ok("Season averages", ref("PlayerStats")), ...errors(400, 404, 502, 504) },
+        },
+      },
+      "/players/{id}/shots": {
+        get: {
+          summary: "Shots the player needs to reach the target",
+          parameters: [
+            idParam("NBA player ID"),
+            targetParam,
+            ...seasonParams,
+            query("opponent", "Team ID; adds a projection against that team", { type: "integer" }),
+          ],
+          responses: { 200: ok("Shots to the target", ref("Shots")), ...errors(400, 404, 422, 502, 504) },
+        },
+      },
+      "/leaderboard": {
+        get: {
+          summary: "Every player in the league ranked by shots to the target",
+          parameters: [
+            targetParam,
+            ...seasonParams,
+            ...leaderboardFilterParams,
+            ...pageParams(LEADERBOARD_DEFAULT_PER_PAGE, LEADERBOARD_MAX_PER_PAGE),
+          ],
+          responses: {
+            200: ok("One page of the leaderboard", { type: "array", items: ref("LeaderboardEntry") }, {
+              allOf: [
+                ref("PageMeta"),
+                object({ target: integer, sort: { type: "string", enum: LEADERBOARD_SORTS }, order: string }),
+              ],
+            }),
+            ...errors(400, 502, 504),
+          },
+        },
+      },
+      "/teams/{id}": {
+        get: {
+          summary: "A team's roster ranked by shots to the target",
+          parameters: [idParam("NBA team ID"), targetParam, ...seasonParams],
+          responses: {
+            200: ok(
+              "The roster, most efficient scorer first",
+              object({
+                team: ref("Team"),
+                season: string,
+                season_type: { type: "string", enum: SEASON_TYPES },
+                target: integer,
+                players: { type: "array", items: ref("RosterEntry") },
+              }),
+            ),
+            ...errors(400, 404, 502, 504),
+          },
+        },
+      },
+      "/export": {
+        get: {
+          summary: "Shots to the target for a list of players, or for the whole filtered leaderboard, as CSV or JSON",
+          parameters: [
+            query("ids", `Comma-separated player IDs (at most ${MAX_EXPORT_IDS}); without it the leaderboard filters apply`, string),
+            query("format", "CSV has the ExportRow fields as columns", { type: "string", enum: EXPORT_FORMATS, default: "csv" }),
+            targetParam,
+            ...seasonParams,
+            ...leaderboardFilterParams,
+          ],
+          responses: {
+            200: ok(
+              "One row per player",
+              { type: "array", items: ref("ExportRow") },
+              object({ target: integer, season: string, season_type: { type: "string", enum: SEASON_TYPES }, count: integer }),
+              { "text/csv": { schema: string } },
+            ),
+            ...errors(400, 502, 504),
+          },
+        },
+      },
+      "/openapi.json": {
+        get: {
+          summary: "This document",
+          responses: { 200: { description: "OpenAPI document", content: { "application/json": {} } } },
+        },
+      },
+    },
+    components: { schemas },
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * In-memory player search index
+ * Built once from commonallplayers rows; accent-insensitive, typo-tolerant, knows initials and nicknames
+ */
+
+import type { ActiveFilter, Player } from "./nba";
+import type { ResultSetRow } from "./schema";
+import { getCurrentSeason } from "./seasons";
+
+// Character range [start, end) of `display_name` that matched the query
+export type MatchRange = [number, number];
+
+export type PlayerSearchResult = Player & {
+  active: boolean;
+  score: number; // Higher is better; see scoreEntry
+  highlights: MatchRange[];
+};
+
+type IndexEntry = {
+  player: Player;
+  displayName: string;
+  active: boolean;
+  normalized: string; // Normalized display name, same length as displayName
+  tokens: Array<{ text: string; start: number }>;
+  initials: string; // "sga" for Shai Gilgeous-Alexander, "kat" for Karl-Anthony Towns
+};
+
+export type PlayerIndex = {
+  entries: IndexEntry[];
+  byName: Map<string, IndexEntry>;
+  builtAt: number;
+};
+
+// Nicknames that don't follow from the name itself (initials are derived automatically)
+const ALIASES: Record<string, string> = {
+  "king james": "LeBron James",
+  "the king": "LeBron James",
+  bron: "LeBron James",
+  "greek freak": "Giannis Antetokounmpo",
+  giannis: "Giannis Antetokounmpo",
+  joker: "Nikola Jokić",
+  "the joker": "Nikola Jokić",
+  steph: "Stephen Curry",
+  "chef curry": "Stephen Curry",
+  kd: "Kevin Durant",
+  "slim reaper": "Kevin Durant",
+  ad: "Anthony Davis",
+  "the brow": "Anthony Davis",
+  cp3: "Chris Paul",
+  dame: "Damian Lillard",
+  "dame time": "Damian Lillard",
+  pg13: "Paul George",
+  ant: "Anthony Edwards",
+  "ant man": "Anthony Edwards",
+  spida: "Donovan Mitchell",
+  "the process": "Joel Embiid",
+  "jimmy buckets": "Jimmy Butler",
+  "the claw": "Kawhi Leonard",
+  "the beard": "James Harden",
+  "uncle drew": "Kyrie Irving",
+  book: "Devin Booker",
+  "ice trae": "Trae Young",
+  wemby: "Victor Wembanyama",
+  luka: "Luka Dončić",
+  jt: "Jayson Tatum",
+  "the unicorn": "Kristaps Porziņģis",
+  unicorn: "Kristaps Porziņģis",
+  mamba: "Kobe Bryant",
+  "black mamba": "Kobe Bryant",
+  "his airness": "Michael Jordan",
+  mj: "Michael Jordan",
+  shaq: "Shaquille O'Neal",
+  "the answer": "Allen Iverson",
+  "the dream": "Hakeem Olajuwon",
+  "the mailman": "Karl Malone",
+  "the admiral": "David Robinson",
+  "the big fundamental": "Tim Duncan",
+  dirk: "Dirk Nowitzki",
+  "d wade": "Dwyane Wade",
+  flash: "Dwyane Wade",
+  melo: "Carmelo Anthony",
+  "the glove": "Gary Payton",
+};
+
+// Letters that don't decompose into a base letter plus a combining mark
+const SPECIAL_LETTERS: Record<string, string> = { "ø": "o", "đ": "d", "ł": "l", "æ": "a", "ß": "s", "ı": "i" };
+
+/**
+ * Lowercase, strip diacritics ("Jokić" -> "jokic") and turn punctuation into spaces.
+ * Output has the same length as the input so match positions map back to the original string.
+ */
+export function normalizeName(value: string): string {
+  return Array.from(value)
+    .map((char) => {
+      const lower = char.toLowerCase();
+      const base = SPECIAL_LETTERS[lower] ?? lower.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      // Keep one character per input character (e.g. "ß" would otherwise expand)
+      const letter = base.charAt(0);
+      return /[a-z0-9]/.test(letter) ? letter : " ";
+    })
+    .join("");
+}
+
+function compact(value: string): string {
+  return normalizeName(value).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Damerau-Levenshtein (optimal string alignment) distance
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Build the index from validated commonallplayers rows
+ */
+export function buildPlayerIndex(rows: Array<ResultSetRow<"commonallplayers", "CommonAllPlayers">>): PlayerIndex {
+  const entries: IndexEntry[] = [];
+  const byName = new Map<string, IndexEntry>();
+  const currentSeasonStart = Number(getCurrentSeason().slice(0, 4));
+
+  for (const row of rows) {
+    const displayLastCommaFirst = row.DISPLAY_LAST_COMMA_FIRST; // "Last, First"
+    const displayFirstLast = row.DISPLAY_FIRST_LAST; // "First Last"
+    const displayName = displayFirstLast || displayLastCommaFirst;
+    if (!displayName) continue;
+
+    // Parse name from "Last, First" format
+    const nameParts = displayLastCommaFirst.split(",").map((s) => s.trim());
+    const normalized = normalizeName(displayName);
+    const tokens = [...normalized.matchAll(/[a-z0-9]+/g)].map((m) => ({ text: m[0], start: m.index ?? 0 }));
+
+    const teamCity = String(row.TEAM_CITY ?? "");
+    const teamName = String(row.TEAM_NAME ?? "");
+
+    const entry: IndexEntry = {
+      player: {
+        id: row.PERSON_ID,
+        first_name: nameParts[1] || "",
+        last_name: nameParts[0] || "",
+        display_name: displayName,
+        team_id: Number(row.TEAM_ID) || 0,
+        team_abbreviation: String(row.TEAM_ABBREVIATION ?? ""),
+        team_name: [teamCity, teamName].filter(Boolean).join(" "),
+        from_year: Number(row.FROM_YEAR) || undefined,
+        to_year: Number(row.TO_YEAR) || undefined,
+      },
+      displayName,
+      // Active = on a roster or played this season (GAMES_PLAYED_FLAG is "Y" for anyone who ever played)
+      active: row.ROSTERSTATUS === 1 || Number(row.TO_YEAR) >= currentSeasonStart,
+      normalized,
+      tokens,
+      initials: tokens.map((token) => token.text[0]).join(""),
+    };
+    entries.push(entry);
+
+    // Prefer the active player when two share a name
+    const key = compact(displayName);
+    const existing = byName.get(key);
+    if (!existing || (!existing.active && entry.active)) {
+      byName.set(key, entry);
+    }
+  }
+
+  return { entries, byName, builtAt: Date.now() };
+}
+
+/**
+ * Score one index entry against a normalized query. Returns null when it doesn't match.
+ *   100 exact name, 90 initials, 85 name prefix, 75 every query word prefixes a name word,
+ *   60 substring, 40-60 fuzzy (typos). Active players get +5.
+ */
+function scoreEntry(
+  entry: IndexEntry,
+  query: string,
+  queryTokens: string[],
+): { score: number; highlights: MatchRange[] } | null {
+  const name = entry.tokens.map((token) => token.text).join(" ");
+  let result: { score: number; highlights: MatchRange[] } | null = null;
+
+  if (name === query) {
+    result = { score: 100, highlights: [[0, entry.displayName.length]] };
+  } else if (queryTokens.length === 1 && query.length >= 2 && entry.initials === query) {
+    result = { score: 90, highlights: entry.tokens.map((token) => [token.start, token.start + 1] as MatchRange) };
+  } else if (name.startsWith(query)) {
+    result = { score: 85, highlights: rangesFor(entry, queryTokens) };
+  } else {
+    const prefixRanges = rangesFor(entry, queryTokens);
+    if (prefixRanges.length === queryTokens.length) {
+      result = { score: 75, highlights: prefixRanges };
+    } else {
+      const index = entry.normalized.indexOf(query);
+      if (index !== -1) {
+        result = { score: 60, highlights: [[index, index + query.length]] };
+      } else if (query.length >= 4) {
+        // Typos: compare with the whole name, and single-word queries with each name word
+        const best = Math.max(
+          similarity(query, name),
+          ...(queryTokens.length === 1 ? entry.tokens.map((token) => similarity(query, token.text)) : []),
+        );
+        if (best >= 0.8) {
+          result = { score: 40 + Math.round(best * 20), highlights: [] };
+        }
+      }
+    }
+  }
+
+  if (result && entry.active) {
+    result.score += 5;
+  }
+  return result;
+}
+
+// Each query word must prefix a different name word; returns the matched ranges
+function rangesFor(entry: IndexEntry, queryTokens: string[]): MatchRange[] {
+  const used = new Set<number>();
+  const ranges: MatchRange[] = [];
+  for (const queryToken of queryTokens) {
+    const i = entry.tokens.findIndex((token, idx) => !used.has(idx) && token.text.startsWith(queryToken));
+    if (i === -1) continue;
+    used.add(i);
+    ranges.push([entry.tokens[i].start, entry.tokens[i].start + queryToken.length]);
+  }
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Ranked search: score, then active players first, then name
+ */
+export function searchPlayerIndex(
+  index: PlayerIndex,
+  query: string,
+  { active = "all" }: { active?: ActiveFilter } = {},
+): PlayerSearchResult[] {
+  const normalizedQuery = compact(query);
+  if (!normalizedQuery) return [];
+  const queryTokens = normalizedQuery.split(" ");
+
+  const results: PlayerSearchResult[] = [];
+  const aliasTarget = ALIASES[normalizedQuery];
+  const aliasEntry = aliasTarget ? index.byName.get(compact(aliasTarget)) : undefined;
+
+  for (const entry of index.entries) {
+    if ((active === "current" && !entry.active) || (active === "retired" && entry.active)) continue;
+    const match =
+      entry === aliasEntry
+        ? { score: 95 + (entry.active ? 5 : 0), highlights: [] as MatchRange[] }
+        : scoreEntry(entry, normalizedQuery, queryTokens);
+    if (!match) continue;
+    results.push({ ...entry.player, active: entry.active, ...match });
+  }
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      Number(b.active) - Number(a.active) ||
+      (a.display_name ?? "").localeCompare(b.display_name ?? ""),
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Team roster shots-to-target table
+ * Pure ranking over a team's roster, most efficient scorer first
+ */
+
+import type { TeamRosterPlayer } from "./nba";
+import { calculateShotsToTarget, calculateTrueShooting } from "./shots";
+
+export type RosterEntry = TeamRosterPlayer & {
+  pointsPerShot: number | null; // null when the player has no field goal attempts
+  shots: number | null;
+  ts_pct: number | null;
+};
+
+/**
+ * Add shots to `target` for every player and sort by points per shot (fewest shots first).
+ * Players without attempts go last, by games then name.
+ */
+export function rankRoster(players: TeamRosterPlayer[], target: number): RosterEntry[] {
+  return players
+    .map((player) => {
+      const calculation = calculateShotsToTarget(player.pts, player.fga, target);
+      return {
+        ...player,
+        pointsPerShot: calculation?.pointsPerShot ?? null,
+        shots: calculation?.shots ?? null,
+        ts_pct: calculateTrueShooting(player, target)?.tsPct ?? null,
+      };
+    })
+    .sort((a, b) => {
+      if (a.pointsPerShot === null || b.pointsPerShot === null) {
+        return (
+          Number(a.pointsPerShot === null) - Number(b.pointsPerShot === null) ||
+          b.gp - a.gp ||
+          a.player_name.localeCompare(b.player_name)
+        );
+      }
+      return b.pointsPerShot - a.pointsPerShot || b.pts - a.pts;
+    });
+}
@@ -0,0 +1,141 @@
+/**
+ * Favorite and recently viewed players for the calculator
+ * List helpers, localStorage persistence and the JSON export format; safe to import from client components
+ */
+
+export type SavedPlayer = {
+  id: number;
+  first_name: string;
+  last_name: string;
+};
+
+export type SavedPlayers = {
+  favorites: SavedPlayer[]; // In the order they were added
+  recents: SavedPlayer[]; // Most recent first
+};
+
+export const EMPTY_SAVED_PLAYERS: SavedPlayers = { favorites: [], recents: [] };
+
+export const MAX_RECENTS = 8;
+
+// Few enough that "Refresh all" is one export request (MAX_EXPORT_IDS)
+export const MAX_FAVORITES = 20;
+
+export const SAVED_PLAYERS_STORAGE_KEY = "shots-to-30:saved-players";
+
+// Bumped if the export format changes incompatibly
+const SAVED_PLAYERS_VERSION = 1;
+
+function toSavedPlayer({ id, first_name, last_name }: SavedPlayer): SavedPlayer {
+  return { id, first_name, last_name };
+}
+
+/** First occurrence of each player, at most `limit` */
+function uniquePlayers(players: SavedPlayer[], limit: number): SavedPlayer[] {
+  return players.filter((player, index) => players.findIndex(({ id }) => id === player.id) === index).slice(0, limit);
+}
+
+/**
+ * Move `player` to the front of the recents
+ */
+export function addRecent(saved: SavedPlayers, player: SavedPlayer): SavedPlayers {
+  return { ...saved, recents: uniquePlayers([toSavedPlayer(player), ...saved.recents], MAX_RECENTS) };
+}
+
+export function isFavorite(saved: SavedPlayers, playerId: number): boolean {
+  return saved.favorites.some(({ id }) => id === playerId);
+}
+
+/**
+ * Add `player` to the favorites, or remove them if already there. Unchanged when the list is full.
+ */
+export function toggleFavorite(saved: SavedPlayers, player: SavedPlayer): SavedPlayers {
+  if (isFavorite(saved, player.id)) {
+    return { ...saved, favorites: saved.favorites.filter(({ id }) => id !== player.id) };
+  }
+  if (saved.favorites.length >= MAX_FAVORITES) {
+    return saved;
+  }
+  return { ...saved, favorites: [...saved.favorites, toSavedPlayer(player)] };
+}
+
+/**
+ * Add imported players to the current ones; existing favorites keep their place
+ */
+export function mergeSavedPlayers(current: SavedPlayers, imported: SavedPlayers): SavedPlayers {
+  return {
+    favorites: uniquePlayers([...current.favorites, ...imported.favorites], MAX_FAVORITES),
+    recents: uniquePlayers([...current.recents, ...imported.recents], MAX_RECENTS),
+  };
+}
+
+// --- JSON format ---
+
+function parsePlayerList(value: unknown): SavedPlayer[] | null {
+  if (!Array.isArray(value)) return null;
+  const players = value.filter(
+    (item): item is SavedPlayer =>
+      typeof item === "object" &&
+      item !== null &&
+      Number.isInteger(item.id) &&
+      item.id > 0 &&
+      typeof item.first_name === "string" &&
+      typeof item.last_name === "string",
+  );
+  return players.length === value.length ? players.map(toSavedPlayer) : null;
+}
+
+/**
+ * Validate saved players read from storage or an imported file
+ */
+export function parseSavedPlayers(
+  value: unknown,
+): { saved: SavedPlayers; error?: undefined } | { saved?: undefined; error: string } {
+  if (typeof value !== "object" || value === null) {
+    return { error: "Not a saved players file" };
+  }
+  const { version, favorites, recents } = value as Record<string, unknown>;
+  if (version !== SAVED_PLAYERS_VERSION) {
+    return { error: `Unsupported saved players version (expected ${SAVED_PLAYERS_VERSION})` };
+  }
+  const favoriteList = parsePlayerList(favorites ?? []);
+  const recentList = parsePlayerList(recents ?? []);
+  if (!favoriteList || !recentList) {
+    return { error: "Saved players file has an invalid player entry" };
+  }
+  return {
+    saved: { favorites: uniquePlayers(favoriteList, MAX_FAVORITES), recents: uniquePlayers(recentList, MAX_RECENTS) },
+  };
+}
+
+/**
+ * The export file's contents
+ */
+export function serializeSavedPlayers(saved: SavedPlayers): string {
+  return `${JSON.stringify({ version: SAVED_PLAYERS_VERSION, ...saved }, null, 2)}\n`;
+}
+
+// --- Storage ---
+
+/**
+ * Saved players from `storage`; empty when nothing (valid) is stored
+ */
+export function loadSavedPlayers(storage: Storage): SavedPlayers {
+  try {
+    const stored = storage.getItem(SAVED_PLAYERS_STORAGE_KEY);
+    return (stored && parseSavedPlayers(JSON.parse(stored)).saved) || EMPTY_SAVED_PLAYERS;
+  } catch {
+    return EMPTY_SAVED_PLAYERS;
+  }
+}
+
+/**
+ * Persist to `storage`; a full or disabled storage only loses the change
+ */
+export function storeSavedPlayers(storage: Storage, saved: SavedPlayers): void {
+  try {
+    storage.setItem(SAVED_PLAYERS_STORAGE_KEY, serializeSavedPlayers(saved));
+  } catch {
+    // Private browsing or quota exceeded
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Runtime validation of NBA Stats responses
+ * Every result set the app reads is checked for its columns and value types, and rows are
+ * mapped to records by header name. Changes on NBA's side surface as SchemaDriftError
+ * instead of silently turning into zeros and NaNs.
+ */
+
+// A cell of a result set after mapping: anything other than a string or number becomes null
+export type ResultSetValue = string | number | null;
+
+// "scalar" = string or number (NBA is inconsistent about years and IDs); "?" = may be null
+export type ColumnType = "number" | "string" | "scalar" | "number?" | "string?" | "scalar?";
+
+export type ResultSetSchema = Record<string, ColumnType>;
+
+type ColumnValue<T extends ColumnType> = T extends "number"
+  ? number
+  : T extends "string"
+    ? string
+    : T extends "scalar"
+      ? string | number
+      : T extends "number?"
+        ? number | null
+        : T extends "string?"
+          ? string | null
+          : string | number | null;
+
+// A validated row: the schema's columns are typed, any other column is still available
+export type SchemaRow<S extends ResultSetSchema> = { [K in keyof S]: ColumnValue<S[K]> } & Record<string, ResultSetValue>;
+
+export type RawResultSet = {
+  name: string;
+  headers: string[];
+  rowSet: Array<Array<unknown>>;
+};
+
+// Columns every playerdashboardbygeneralsplits result set shares
+const DASHBOARD_COLUMNS = {
+  GROUP_SET: "string",
+  GROUP_VALUE: "scalar",
+  GP: "number",
+  MIN: "number",
+  FGM: "number",
+  FGA: "number",
+  FG3M: "number",
+  FG3A: "number",
+  FTM: "number",
+  FTA: "number",
+  PTS: "number",
+} as const satisfies ResultSetSchema;
+
+// Career rows from before the three-point line (and some ABA-era seasons) have null stats
+const CAREER_COLUMNS = {
+  SEASON_ID: "string",
+  TEAM_ABBREVIATION: "string?",
+  GP: "number",
+  FGA: "number?",
+  PTS: "number?",
+} as const satisfies ResultSetSchema;
+
+/**
+ * The columns the app reads, per endpoint and result set. Extra columns are ignored.
+ */
+export const NBA_SCHEMAS = {
+  commonallplayers: {
+    CommonAllPlayers: {
+      PERSON_ID: "number",
+      DISPLAY_LAST_COMMA_FIRST: "string",
+      DISPLAY_FIRST_LAST: "string",
+      ROSTERSTATUS: "number?",
+      FROM_YEAR: "scalar?",
+      TO_YEAR: "scalar?",
+      TEAM_ID: "number?",
+      TEAM_CITY: "string?",
+      TEAM_NAME: "string?",
+      TEAM_ABBREVIATION: "string?",
+      GAMES_PLAYED_FLAG: "string?",
+    },
+  },
+  commonplayerinfo: {
+    CommonPlayerInfo: {
+      FIRST_NAME: "string",
+      LAST_NAME: "string",
+      DISPLAY_FIRST_LAST: "string?",
+      TEAM_ID: "number?",
+      TEAM_CITY: "string?",
+      TEAM_NAME: "string?",
+      TEAM_ABBREVIATION: "string?",
+      FROM_YEAR: "scalar?",
+      TO_YEAR: "scalar?",
+    },
+  },
+  playerdashboardbygeneralsplits: {
+    OverallPlayerDashboard: DASHBOARD_COLUMNS,
+    LocationPlayerDashboard: DASHBOARD_COLUMNS,
+    WinsLossesPlayerDashboard: DASHBOARD_COLUMNS,
+    MonthPlayerDashboard: DASHBOARD_COLUMNS,
+    PrePostAllStarPlayerDashboard: DASHBOARD_COLUMNS,
+    StartingPosition: DASHBOARD_COLUMNS,
+    DaysRestPlayerDashboard: DASHBOARD_COLUMNS,
+  },
+  playergamelog: {
+    PlayerGameLog: {
+      Game_ID: "scalar",
+      GAME_DATE: "string",
+      MATCHUP: "string",
+      WL: "string?",
+      MIN: "number?",
+      FGM: "number",
+      FGA: "number",
+      FG3M: "number",
+      FG3A: "number",
+      FTM: "number",
+      FTA: "number",
+      PTS: "number",
+    },
+  },
+  playercareerstats: {
+    SeasonTotalsRegularSeason: CAREER_COLUMNS,
+    SeasonTotalsPostSeason: CAREER_COLUMNS,
+  },
+  commonteamroster: {
+    CommonTeamRoster: {
+      PLAYER_ID: "number",
+      PLAYER: "string",
+      NUM: "string?",
+      POSITION: "string?",
+    },
+  },
+  teamplayerdashboard: {
+    PlayersSeasonTotals: {
+      PLAYER_ID: "number",
+      PLAYER_NAME: "string",
+      GP: "number",
+      MIN: "number",
+      FGM: "number",
+      FGA: "number",
+      FG3M: "number",
+      FG3A: "number",
+      FTM: "number",
+      FTA: "number",
+      PTS: "number",
+    },
+  },
+  leaguedashteamstats: {
+    LeagueDashTeamStats: {
+      TEAM_ID: "number",
+      TEAM_NAME: "string",
+      GP: "number",
+      OPP_FGM: "number",
+      OPP_FGA: "number",
+      OPP_FG_PCT: "number",
+    },
+  },
+  leaguedashplayerstats: {
+    LeagueDashPlayerStats: {
+      PLAYER_ID: "number",
+      PLAYER_NAME: "string",
+      TEAM_ID: "number",
+      TEAM_ABBREVIATION: "string",
+      GP: "number",
+      MIN: "number",
+      FGA: "number",
+      PTS: "number",
+    },
+  },
+} as const satisfies Record<string, Record<string, ResultSetSchema>>;
+
+export type NbaEndpoint = keyof typeof NBA_SCHEMAS;
+
+export type ResultSetName<E extends NbaEndpoint> = keyof (typeof NBA_SCHEMAS)[E] & string;
+
+type SchemaFor<E extends NbaEndpoint, N extends ResultSetName<E>> =
+  (typeof NBA_SCHEMAS)[E][N] extends ResultSetSchema ? (typeof NBA_SCHEMAS)[E][N] : never;
+
+export type ResultSetRow<E extends NbaEndpoint, N extends ResultSetName<E>> = SchemaRow<SchemaFor<E, N>>;
+
+/**
+ * The response no longer matches NBA_SCHEMAS. `problems` lists what differed (first few only).
+ */
+export class SchemaDriftError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly resultSet: string,
+    readonly problems: string[],
+  ) {
+    super(`Schema drift in ${endpoint} ${resultSet}: ${problems.join("; ")}`);
+    this.name = "SchemaDriftError";
+  }
+}
+
+// Enough to diagnose a drift without dumping thousands of rows into the log
+const MAX_PROBLEMS = 5;
+
+function matchesType(value: unknown, type: ColumnType): boolean {
+  if (value === null) return type.endsWith("?");
+  const base = type.replace("?", "");
+  if (typeof value === "number") return base !== "string" && Number.isFinite(value);
+  if (typeof value === "string") return base !== "number";
+  return false;
+}
+
+/**
+ * All result sets of a response, or null when `resultSets` is missing or malformed
+ */
+export function getResultSets(data: unknown): RawResultSet[] | null {
+  const resultSets = (data as { resultSets?: unknown } | null)?.resultSets;
+  if (!Array.isArray(resultSets)) return null;
+  return resultSets.every(
+    (rs) =>
+      typeof rs?.name === "string" &&
+      Array.isArray(rs.headers) &&
+      rs.headers.every((header: unknown) => typeof header === "string") &&
+      Array.isArray(rs.rowSet) &&
+      rs.rowSet.every(Array.isArray),
+  )
+    ? resultSets
+    : null;
+}
+
+/**
+ * Check one result set against its schema and map its rows to records by header.
+ * Throws SchemaDriftError when the result set, a column or a value type doesn't match.
+ */
+export function validateResultSet<E extends NbaEndpoint, N extends ResultSetName<E>>(
+  data: unknown,
+  endpoint: E,
+  name: N,
+): ResultSetRow<E, N>[] {
+  const resultSets = getResultSets(data);
+  if (!resultSets) {
+    throw new SchemaDriftError(endpoint, name, ["response has no valid resultSets array"]);
+  }
+
+  const resultSet = resultSets.find((rs) => rs.name === name);
+  if (!resultSet) {
+    throw new SchemaDriftError(endpoint, name, [
+      `result set missing (got ${resultSets.map((rs) => rs.name).join(", ") || "none"})`,
+    ]);
+  }
+
+  const schemas: Record<string, Record<string, ResultSetSchema>> = NBA_SCHEMAS;
+  const schema = schemas[endpoint][name];
+  const missing = Object.keys(schema).filter((column) => !resultSet.headers.includes(column));
+  if (missing.length > 0) {
+    throw new SchemaDriftError(endpoint, name, [`missing columns ${missing.join(", ")}`]);
+  }
+
+  const problems: string[] = [];
+  const rows = resultSet.rowSet.map((row, rowIndex) => {
+    if (row.length !== resultSet.headers.length && problems.length < MAX_PROBLEMS) {
+      problems.push(`row ${rowIndex} has ${row.length} values for ${resultSet.headers.length} headers`);
+    }
+    const record: Record<string, ResultSetValue> = {};
+    resultSet.headers.forEach((header, i) => {
+      const value = row[i];
+      const type = schema[header];
+      if (type && !matchesType(value, type) && problems.length < MAX_PROBLEMS) {
+        problems.push(`row ${rowIndex} ${header} is ${JSON.stringify(value)} (expected ${type})`);
+      }
+      record[header] = typeof value === "string" || typeof value === "number" ? value : null;
+    });
+    return record as ResultSetRow<E, N>;
+  });
+
+  if (problems.length > 0) {
+    throw new SchemaDriftError(endpoint, name, problems);
+  }
+  return rows;
+}
@@ -0,0 +1,93 @@
+/**
+ * NBA season helpers
+ * Pure functions, safe to import from client components
+ */
+
+export type SeasonType = "Regular Season" | "Playoffs" | "PlayIn";
+
+export const SEASON_TYPES: SeasonType[] = ["Regular Season", "Playoffs", "PlayIn"];
+
+export type SeasonOptions = {
+  season?: string; // Defaults to the current season, falling back to the previous one
+  seasonType?: SeasonType;
+};
+
+/**
+ * Get current NBA season string (e.g., "2024-25")
+ */
+export function getCurrentSeason(): string {
+  const currentYear = new Date().getFullYear();
+  const month = new Date().getMonth() + 1;
+  // NBA season starts in October
+  if (month >= 10) {
+    return `${currentYear}-${String(currentYear + 1).slice(-2)}`;
+  } else {
+    return `${currentYear - 1}-${String(currentYear).slice(-2)}`;
+  }
+}
+
+/**
+ * Get previous NBA season string
+ */
+export function getPreviousSeason(): string {
+  const currentYear = new Date().getFullYear();
+  const month = new Date().getMonth() + 1;
+  if (month >= 10) {
+    return `${currentYear - 1}-${String(currentYear).slice(-2)}`;
+  } else {
+    return `${currentYear - 2}-${String(currentYear - 1).slice(-2)}`;
+  }
+}
+
+/**
+ * List recent season strings, newest first (e.g., ["2024-25", "2023-24", ...])
+ */
+export function getRecentSeasons(count = 10): string[] {
+  const startYear = Number(getCurrentSeason().slice(0, 4));
+  return Array.from({ length: count }, (_, i) => {
+    const year = startYear - i;
+    return `${year}-${String(year + 1).slice(-2)}`;
+  });
+}
+
+/**
+ * Validate a season string like "2024-25" (second year must follow the first)
+ */
+export function parseSeason(value: string | null | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})$/);
+  if (!match) return null;
+  const startYear = Number(match[1]);
+  if (startYear < 1946 || String(startYear + 1).slice(-2) !== match[2]) {
+    return null;
+  }
+  return `${match[1]}-${match[2]}`;
+}
+
+/**
+ * Validate a season type; accepts "Play-In" as an alias for the API's "PlayIn"
+ */
+export function parseSeasonType(value: string | null | undefined): SeasonType | null {
+  if (!value) return null;
+  const normalized = value.trim() === "Play-In" ? "PlayIn" : value.trim();
+  return SEASON_TYPES.find((type) => type === normalized) ?? null;
+}
+
+/**
+ * Read `season` and `seasonType` query params for the stats routes
+ */
+export function parseSeasonOptions(
+  searchParams: URLSearchParams,
+): { options: SeasonOptions; error?: undefined } | { options?: undefined; error: string } {
+  const rawSeason = searchParams.get("season");
+  const rawSeasonType = searchParams.get("seasonType");
+  const season = rawSeason ? parseSeason(rawSeason) : undefined;
+  const seasonType = rawSeasonType ? parseSeasonType(rawSeasonType) : undefined;
+
+  if (season === null) {
+    return { error: "Invalid season (expected format like 2024-25)" };
+  }
+  if (seasonType === null) {
+    return { error: "Invalid seasonType (expected Regular Season, Playoffs or Play-In)" };
+  }
+  return { options: { season, seasonType } };
+}
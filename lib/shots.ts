@@ -0,0 +1,151 @@
+/**
+ * Shots-to-target calculation
+ * Pure helpers shared by the API routes and the calculator UI
+ */
+
+export const DEFAULT_TARGET = 30;
+
+// Preset targets offered in the calculator (81 = Kobe's career high)
+export const TARGET_PRESETS = [20, 30, 40, 50, 81] as const;
+
+export const MIN_TARGET = 1;
+export const MAX_TARGET = 200;
+
+// "naive" = PTS / FGA (free-throw points count as if they came from shots)
+// "true-shooting" = FGA plus free-throw trips, from the player's TS% and shot mix
+export type CalculationMode = "naive" | "true-shooting";
+
+export const CALCULATION_MODES: CalculationMode[] = ["naive", "true-shooting"];
+
+export type ShotsCalculation = {
+  target: number;
+  pointsPerShot: number;
+  shots: number;
+};
+
+// Per-game shooting line (a subset of PlayerStats)
+export type ShootingLine = {
+  pts: number;
+  fga: number;
+  fgm: number;
+  fg3m: number;
+  fg3a: number;
+  ftm: number;
+  fta: number;
+};
+
+export type ShotTypeBreakdown = {
+  attempts: number;
+  points: number;
+};
+
+export type TrueShootingCalculation = {
+  target: number;
+  tsPct: number;
+  fga: number; // Field goal attempts needed
+  ftTrips: number; // Expected trips to the line (0.44 FTA each, the standard TS estimate)
+  fta: number; // Free throw attempts needed
+  breakdown: {
+    twos: ShotTypeBreakdown;
+    threes: ShotTypeBreakdown;
+    freeThrows: ShotTypeBreakdown;
+  };
+};
+
+// Share of free throw attempts that use up a possession (and-ones, technicals, three-shot fouls)
+const FT_TRIP_FACTOR = 0.44;
+
+/**
+ * Parse a calculation mode query param ("ts" is accepted as shorthand)
+ */
+export function parseMode(value: string | null | undefined): CalculationMode | null {
+  if (value === "ts") return "true-shooting";
+  return CALCULATION_MODES.find((mode) => mode === value) ?? null;
+}
+
+/**
+ * Parse a target-points value from a query string or input field.
+ * Returns null when the value is missing, not a whole number, or out of range.
+ */
+export function parseTarget(value: string | null | undefined): number | null {
+  if (value == null || !value.trim()) return null;
+  const target = Number(value);
+  if (!Number.isInteger(target) || target < MIN_TARGET || target > MAX_TARGET) {
+    return null;
+  }
+  return target;
+}
+
+/**
+ * Read the `target` query param for the API routes (defaults to 30 when absent)
+ */
+export function parseTargetOption(
+  searchParams: URLSearchParams,
+): { target: number; error?: undefined } | { target?: undefined; error: string } {
+  const rawTarget = searchParams.get("target");
+  const target = rawTarget === null ? DEFAULT_TARGET : parseTarget(rawTarget);
+  if (target === null) {
+    return { error: `Invalid target (must be a whole number from ${MIN_TARGET} to ${MAX_TARGET})` };
+  }
+  return { target };
+}
+
+/**
+ * Shots needed to reach `target` points at the player's points-per-shot rate.
+ * Returns null when the player has no points or no field goal attempts.
+ */
+export function calculateShotsToTarget(
+  pts: number,
+  fga: number,
+  target: number = DEFAULT_TARGET,
+): ShotsCalculation | null {
+  if (!(pts > 0) || !(fga > 0)) {
+    return null;
+  }
+
+  const pointsPerShot = pts / fga;
+  return {
+    target,
+    pointsPerShot: Number(pointsPerShot.toFixed(3)),
+    shots: Number((target / pointsPerShot).toFixed(1)),
+  };
+}
+
+/**
+ * Scale the player's per-game shooting line until it produces `target` points.
+ * Keeps the two/three/free-throw mix, so free-throw points are no longer credited to field goals.
+ * Returns null when the player has no points or no field goal attempts.
+ */
+export function calculateTrueShooting(
+  line: ShootingLine,
+  target: number = DEFAULT_TARGET,
+): TrueShootingCalculation | null {
+  if (!(line.pts > 0) || !(line.fga > 0)) {
+    return null;
+  }
+
+  const scale = target / line.pts;
+  const round = (value: number) => Number((value * scale).toFixed(1));
+
+  return {
+    target,
+    tsPct: Number((line.pts / (2 * (line.fga + FT_TRIP_FACTOR * line.fta))).toFixed(3)),
+    fga: round(line.fga),
+    ftTrips: round(FT_TRIP_FACTOR * line.fta),
+    fta: round(line.fta),
+    breakdown: {
+      twos: {
+        attempts: round(line.fga - line.fg3a),
+        points: round(2 * (line.fgm - line.fg3m)),
+      },
+      threes: {
+        attempts: round(line.fg3a),
+        points: round(3 * line.fg3m),
+      },
+      freeThrows: {
+        attempts: round(line.fta),
+        points: round(line.ftm),
+      },
+    },
+  };
+}
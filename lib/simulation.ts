@@ -0,0 +1,159 @@
+/**
+ * Monte Carlo "chance to reach the target" simulation from a player's game log
+ * Pure functions, safe to import from client components
+ */
+
+// Per-game shooting line (a subset of GameLogEntry)
+export type GameShooting = {
+  fgm: number;
+  fga: number;
+  fg3m: number;
+  ftm: number;
+};
+
+/**
+ * Per-shot outcome model built from game logs. Each field goal attempt is a miss, a two or a three
+ * with the player's season-long rates; free-throw points are added per shot at the rate of a
+ * randomly drawn game, so foul-drawing variance between games is kept.
+ */
+export type ShotModel = {
+  pTwo: number; // P(made two) per FGA
+  pThree: number; // P(made three) per FGA
+  ftPointsPerShot: number[]; // FTM / FGA for each game with at least one FGA
+  games: number;
+};
+
+export type PointsDistribution = {
+  shots: number;
+  trials: number;
+  probability: number; // P(points >= target)
+  mean: number;
+  histogram: Array<{ points: number; count: number }>; // One bucket per point total, ascending
+};
+
+export const DEFAULT_TRIALS = 4000;
+export const CONFIDENCE_LEVELS = [0.5, 0.75, 0.9] as const;
+
+// Upper bound for shotsForProbability; nobody has taken more than 63 shots in an NBA game
+const MAX_SHOTS = 100;
+
+/**
+ * Small seeded PRNG (mulberry32) so the same inputs always give the same chart
+ */
+export function createRng(seed = 30): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Build a shot model from game logs. Returns null when the games contain no field goal attempts.
+ */
+export function buildShotModel(games: GameShooting[]): ShotModel | null {
+  const played = games.filter((game) => game.fga > 0);
+  const fga = played.reduce((sum, game) => sum + game.fga, 0);
+  if (fga === 0) {
+    return null;
+  }
+
+  const fgm = played.reduce((sum, game) => sum + game.fgm, 0);
+  const fg3m = played.reduce((sum, game) => sum + game.fg3m, 0);
+
+  return {
+    pTwo: (fgm - fg3m) / fga,
+    pThree: fg3m / fga,
+    ftPointsPerShot: played.map((game) => game.ftm / game.fga),
+    games: played.length,
+  };
+}
+
+/**
+ * Simulate point totals for games with `shots` field goal attempts
+ */
+export function simulatePoints(
+  model: ShotModel,
+  shots: number,
+  trials = DEFAULT_TRIALS,
+  rng = createRng(),
+): number[] {
+  const results: number[] = new Array(trials);
+  for (let trial = 0; trial < trials; trial++) {
+    let points = 0;
+    for (let shot = 0; shot < shots; shot++) {
+      const roll = rng();
+      if (roll < model.pThree) {
+        points += 3;
+      } else if (roll < model.pThree + model.pTwo) {
+        points += 2;
+      }
+    }
+    const ftRate = model.ftPointsPerShot[Math.floor(rng() * model.ftPointsPerShot.length)];
+    results[trial] = points + Math.round(ftRate * shots);
+  }
+  return results;
+}
+
+/**
+ * Distribution of simulated points with `shots` attempts, and P(points >= target)
+ */
+export function pointsDistribution(
+  model: ShotModel,
+  shots: number,
+  target: number,
+  trials = DEFAULT_TRIALS,
+): PointsDistribution {
+  const results = simulatePoints(model, shots, trials);
+  const counts = new Map<number, number>();
+  let reached = 0;
+  let total = 0;
+  for (const points of results) {
+    counts.set(points, (counts.get(points) ?? 0) + 1);
+    if (points >= target) reached++;
+    total += points;
+  }
+
+  return {
+    shots,
+    trials,
+    probability: reached / trials,
+    mean: Number((total / trials).toFixed(1)),
+    histogram: [...counts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([points, count]) => ({ points, count })),
+  };
+}
+
+/**
+ * Fewest field goal attempts that reach `target` with at least `probability`.
+ * Binary search over shot counts; the fixed seed keeps the probability monotonic enough in practice.
+ * Returns null when even MAX_SHOTS attempts aren't enough.
+ */
+export function shotsForProbability(
+  model: ShotModel,
+  target: number,
+  probability: number,
+  trials = DEFAULT_TRIALS,
+): number | null {
+  const chance = (shots: number) => pointsDistribution(model, shots, target, trials).probability;
+
+  if (chance(MAX_SHOTS) < probability) {
+    return null;
+  }
+
+  let low = 0;
+  let high = MAX_SHOTS;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (chance(mid) >= probability) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+}
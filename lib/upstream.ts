@@ -0,0 +1,297 @@
+/**
+ * Resilient requests to stats.nba.com
+ * Per-attempt timeouts, jittered exponential retries on 429/5xx, and an ordered list of proxies
+ * with circuit breaking that falls back to a direct request, all within one overall deadline.
+ * Every response says which path served it.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createLogger, createRequestId, REQUEST_ID_HEADER, withRequestId } from "./logger";
+
+// "direct", "proxy:<host>", or "cache" when nbaFetch answered from the response cache
+export type UpstreamPath = "direct" | "cache" | `proxy:${string}`;
+
+// requestId is sent to proxies as X-Request-Id so their logs line up with ours (never to NBA.com)
+export type UpstreamInit = RequestInit & { next?: { revalidate?: number }; requestId?: string };
+
+// Which paths served a route's NBA requests, and the ID the route's logs carry
+export type UpstreamTrace = { paths: UpstreamPath[]; requestId: string };
+
+type Route = {
+  path: UpstreamPath;
+  buildRequest: (url: string, init: UpstreamInit, requestId?: string) => [string, UpstreamInit];
+};
+
+type Circuit = {
+  failures: number; // Consecutive failures
+  openUntil: number; // ms since epoch; skipped until then
+};
+
+// Headers to mimic a browser request (NBA Stats API requires this)
+const NBA_HEADERS: HeadersInit = {
+  "Accept": "application/json, text/plain, */*",
+  "Accept-Language": "en-US,en;q=0.9",
+  "Referer": "https://www.nba.com/",
+  "Origin": "https://www.nba.com",
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+};
+
+export const SERVED_BY_HEADER = "X-Served-By";
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+// Shared by every NBA request a route makes (or by a single request outside a route)
+const DEFAULT_DEADLINE_MS = 25_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_MS = 300;
+const MAX_RETRY_DELAY_MS = 5_000;
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_OPEN_MS = 60_000;
+
+const log = createLogger("upstream");
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name]?.trim() && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Proxies from NBA_STATS_PROXY_URL (comma-separated, tried in order), then a direct request
+ * unless NBA_STATS_DIRECT_FALLBACK=off. Each proxy accepts GET ?url=<encoded-nba-url>.
+ */
+function getRoutes(): Route[] {
+  // Shared secret the proxy checks (its PROXY_SECRET) so only this app can use it
+  const secret = process.env.NBA_STATS_PROXY_SECRET?.trim();
+  const proxies: Route[] = (process.env.NBA_STATS_PROXY_URL ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map((value) => {
+      // Ensure proxy URL has a scheme (fetch requires a full URL)
+      const proxyBase = (/^https?:\/\//i.test(value) ? value : `https://${value}`).replace(/\/$/, "");
+      return {
+        path: `proxy:${new URL(proxyBase).host}` as const,
+        buildRequest: (url, init, requestId) => [
+          `${proxyBase}?url=${encodeURIComponent(url)}`,
+          {
+            ...init,
+            headers: {
+              Accept: "application/json",
+              ...(secret && { "X-Proxy-Secret": secret }),
+              ...(requestId && { [REQUEST_ID_HEADER]: requestId }),
+              ...init.headers,
+            },
+          },
+        ],
+      };
+    });
+
+  const direct: Route = {
+    path: "direct",
+    buildRequest: (url, init) => [url, { ...init, headers: { ...NBA_HEADERS, ...init.headers } }],
+  };
+  const directFallback = process.env.NBA_STATS_DIRECT_FALLBACK?.trim().toLowerCase() !== "off";
+  return proxies.length === 0 || directFallback ? [...proxies, direct] : proxies;
+}
+
+// --- Circuit breaker: a proxy that keeps failing is skipped for a while ---
+
+const circuits = new Map<UpstreamPath, Circuit>();
+
+function isOpen(path: UpstreamPath): boolean {
+  return (circuits.get(path)?.openUntil ?? 0) > Date.now();
+}
+
+function recordResult(path: UpstreamPath, ok: boolean): void {
+  if (ok) {
+    circuits.delete(path);
+    return;
+  }
+  const circuit = circuits.get(path) ?? { failures: 0, openUntil: 0 };
+  circuit.failures++;
+  // After the cool-down one request is let through again; another failure reopens immediately
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = Date.now() + CIRCUIT_OPEN_MS;
+    log.warn("Circuit open", { path, failures: circuit.failures });
+  }
+  circuits.set(path, circuit);
+}
+
+// --- Request tracing: which paths served the NBA requests made inside a route ---
+
+type TraceContext = {
+  paths: UpstreamPath[];
+  deadline: number; // ms since epoch; NBA requests give up once it passes
+};
+
+const traceStorage = new AsyncLocalStorage<TraceContext>();
+
+function deadlineFromNow(): number {
+  return Date.now() + numberFromEnv("NBA_FETCH_DEADLINE_MS", DEFAULT_DEADLINE_MS);
+}
+
+/**
+ * Run a route's NBA work under a request ID (the caller's X-Request-Id, or a new one) and
+ * collect the path of every NBA request it made (deduplicated, in order). All of those
+ * requests share one deadline (NBA_FETCH_DEADLINE_MS), however many retries and failovers they take.
+ */
+export async function withUpstreamTrace<T>(
+  request: Request,
+  fn: () => Promise<T>,
+): Promise<{ result: T; trace: UpstreamTrace }> {
+  const requestId = createRequestId(request);
+  const context: TraceContext = { paths: [], deadline: deadlineFromNow() };
+  const result = await withRequestId(requestId, () => traceStorage.run(context, fn));
+  return { result, trace: { paths: [...new Set(context.paths)], requestId } };
+}
+
+export function recordUpstreamPath(path: UpstreamPath): void {
+  traceStorage.getStore()?.paths.push(path);
+}
+
+/**
+ * Response headers reporting the trace, e.g. `X-Upstream-Path: proxy:nba-proxy.fly.dev, cache`
+ * and the request ID to quote when looking through the logs
+ */
+export function traceHeaders({ paths, requestId }: UpstreamTrace): Record<string, string> {
+  return {
+    [REQUEST_ID_HEADER]: requestId,
+    ...(paths.length > 0 && { "X-Upstream-Path": paths.join(", ") }),
+  };
+}
+
+// --- Fetching ---
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Blocked, unauthorized or overloaded paths are worth trying the next one for; other 4xx are answers
+function shouldFailOver(status: number): boolean {
+  return status === 401 || status === 403 || isRetryableStatus(status);
+}
+
+/** The server's Retry-After when it sends one, capped at MAX_RETRY_DELAY_MS; otherwise full jitter up to base * 2^attempt */
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterMs = Number(retryAfter) * 1000;
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  }
+  return Math.random() * Math.min(RETRY_BASE_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function deadlineExceeded(): DOMException {
+  return new DOMException("NBA request deadline exceeded", "TimeoutError");
+}
+
+/**
+ * One attempt, cut short if the deadline comes first. The timeout covers the body too,
+ * since stats.nba.com can stall mid-response.
+ */
+async function attempt(route: Route, url: string, timeoutMs: number, deadline: number, init?: UpstreamInit): Promise<Response> {
+  const budgetMs = Math.min(timeoutMs, deadline - Date.now());
+  if (budgetMs <= 0) {
+    throw deadlineExceeded();
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(`Timed out after ${budgetMs}ms`, "TimeoutError")),
+    budgetMs,
+  );
+  const signal = init?.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+  try {
+    const { requestId, ...rest } = init ?? {};
+    const [requestUrl, requestInit] = route.buildRequest(url, { ...rest, signal }, requestId);
+    const response = await fetch(requestUrl, requestInit);
+    const body = await response.text();
+    const headers = new Headers(response.headers);
+    headers.set(SERVED_BY_HEADER, route.path);
+    // The body is already decoded, so the original encoding headers no longer apply
+    headers.delete("Content-Encoding");
+    headers.delete("Content-Length");
+    return new Response(body, { status: response.status, statusText: response.statusText, headers });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Try one path, retrying timeouts, network errors and 429/5xx with backoff while the deadline allows */
+async function fetchWithRetries(route: Route, url: string, deadline: number, init?: UpstreamInit): Promise<Response> {
+  const timeoutMs = numberFromEnv("NBA_FETCH_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const retries = numberFromEnv("NBA_FETCH_RETRIES", DEFAULT_RETRIES);
+
+  for (let i = 0; ; i++) {
+    try {
+      const response = await attempt(route, url, timeoutMs, deadline, init);
+      if (!isRetryableStatus(response.status) || i >= retries) {
+        return response;
+      }
+      const delay = retryDelay(i, response.headers.get("Retry-After"));
+      if (Date.now() + delay >= deadline) {
+        return response;
+      }
+      log.warn("Retrying after error status", { path: route.path, status: response.status, retry: i + 1, retries, delay_ms: Math.round(delay) });
+      await sleep(delay);
+    } catch (error) {
+      // The caller cancelled; don't retry or fail over
+      if (init?.signal?.aborted || i >= retries) {
+        throw error;
+      }
+      const delay = retryDelay(i, null);
+      if (Date.now() + delay >= deadline) {
+        throw error;
+      }
+      log.warn("Retrying after failure", { path: route.path, error, retry: i + 1, retries, delay_ms: Math.round(delay) });
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Fetch an NBA Stats URL over the first healthy path. Proxies with an open circuit are skipped
+ * (unless every path is open); a failing path falls over to the next one. The response carries
+ * an X-Served-By header naming the path. Gives up when the route's deadline (see withUpstreamTrace)
+ * passes; rejects when the last path tried threw, with a TimeoutError if no path could be tried.
+ */
+export async function fetchUpstream(url: string, init?: UpstreamInit): Promise<Response> {
+  const deadline = traceStorage.getStore()?.deadline ?? deadlineFromNow();
+  const routes = getRoutes();
+  const available = routes.filter((route) => !isOpen(route.path));
+  const candidates = available.length > 0 ? available : routes;
+
+  let lastResponse: Response | undefined;
+  let lastError: unknown = deadlineExceeded();
+  for (const route of candidates) {
+    if (Date.now() >= deadline) {
+      log.warn("Deadline reached, not trying further paths", { path: route.path, url });
+      break;
+    }
+    try {
+      const response = await fetchWithRetries(route, url, deadline, init);
+      const failed = shouldFailOver(response.status);
+      recordResult(route.path, !failed);
+      if (!failed) {
+        return response;
+      }
+      log.warn("Failing over after error status", { path: route.path, status: response.status, url });
+      lastResponse = response;
+      lastError = undefined;
+    } catch (error) {
+      if (init?.signal?.aborted) throw error;
+      // An attempt the deadline cut short says nothing about the path's health
+      if (Date.now() < deadline) {
+        recordResult(route.path, false);
+      }
+      log.warn("Failing over after failure", { path: route.path, error, url });
+      lastResponse = undefined;
+      lastError = error;
+    }
+  }
+
+  if (lastResponse) return lastResponse;
+  throw lastError;
+}
@@ -0,0 +1,124 @@
+/**
+ * Offline stand-in for stats.nba.com.
+ * Speaks the same protocol as proxy/server.js, so the app can use it through NBA_STATS_PROXY_URL,
+ * and serves the recorded responses in fixtures/nba.
+ *
+ * Run: node mock/nba-server.mjs
+ * Then: NBA_STATS_PROXY_URL=http://localhost:9100 NBA_STATS_DIRECT_FALLBACK=off npm run dev
+ *
+ * Usage: GET ?url=<encodeURIComponent(https://stats.nba.com/stats/...)>   (proxy protocol)
+ *        GET /stats/<endpoint>?...                                         (stats.nba.com paths, e.g. as NBA_UPSTREAM_ORIGIN for the proxy)
+ *
+ * Fixture lookup for /stats/<endpoint>: fixtures/nba/<endpoint>-vs-opponent.json when OpponentTeamID is set,
+ * then <endpoint>-<PlayerID>.json, then <endpoint>.json.
+ * Unknown endpoints get a 404.
+ */
+
+import http from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const DEFAULT_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "fixtures", "nba");
+
+/**
+ * @typedef {{ status?: number, body?: unknown, delayMs?: number, headers?: Record<string, string> }} MockResponse
+ * @typedef {(endpoint: string, params: URLSearchParams) => MockResponse | string | undefined} MockOverride
+ *   Return a response (`headers` are added to the response's), a fixture name (without .json), or undefined
+ *   to fall through to the defaults
+ */
+
+/**
+ * Read a fixture by name, e.g. "playerdashboardbygeneralsplits-no-games"
+ * @param {string} name
+ * @param {string} [dir]
+ */
+export function loadFixture(name, dir = DEFAULT_FIXTURES_DIR) {
+  return JSON.parse(readFileSync(path.join(dir, `${name}.json`), "utf8"));
+}
+
+/**
+ * @param {{ fixturesDir?: string }} [options]
+ */
+export function createMockNbaServer({ fixturesDir = DEFAULT_FIXTURES_DIR } = {}) {
+  /** @type {MockOverride[]} */
+  const overrides = [];
+  /** @type {URL[]} NBA URLs requested so far, oldest first */
+  const requests = [];
+  /** @type {http.IncomingHttpHeaders[]} Headers of those requests, same order */
+  const requestHeaders = [];
+
+  /** @returns {MockResponse} */
+  function resolve(endpoint, params) {
+    for (const override of overrides) {
+      const result = override(endpoint, params);
+      if (typeof result === "string") return { body: loadFixture(result, fixturesDir) };
+      if (result) return result;
+    }
+    const playerId = params.get("PlayerID");
+    const opponent = Number(params.get("OpponentTeamID")) > 0;
+    for (const name of [opponent && `${endpoint}-vs-opponent`, playerId && `${endpoint}-${playerId}`, endpoint]) {
+      if (name && existsSync(path.join(fixturesDir, `${name}.json`))) {
+        return { body: loadFixture(name, fixturesDir) };
+      }
+    }
+    return { status: 404, body: { error: `No fixture for ${endpoint}` } };
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const u = new URL(req.url || "", "http://localhost");
+    const target = u.pathname.startsWith("/stats/") ? u : u.searchParams.get("url") && new URL(u.searchParams.get("url"));
+    if (!target || !target.pathname.startsWith("/stats/")) {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Missing or invalid url query (must be stats.nba.com)" }));
+      return;
+    }
+
+    requests.push(target);
+    requestHeaders.push(req.headers);
+    const endpoint = target.pathname.split("/").filter(Boolean).pop().toLowerCase();
+    const { status = 200, body = {}, delayMs = 0, headers = {} } = resolve(endpoint, target.searchParams);
+    if (delayMs > 0) {
+      await new Promise((done) => setTimeout(done, delayMs));
+    }
+    if (res.destroyed) return;
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(typeof body === "string" ? body : JSON.stringify(body));
+  });
+
+  return {
+    requests,
+    requestHeaders,
+    /** Requests to one endpoint, e.g. mock.requestsTo("commonallplayers") */
+    requestsTo(endpoint) {
+      return requests.filter((url) => url.pathname.toLowerCase().endsWith(`/${endpoint}`));
+    },
+    /** Answer matching requests differently; later calls take precedence over earlier ones */
+    override(/** @type {MockOverride} */ handler) {
+      overrides.unshift(handler);
+    },
+    /** Drop overrides and recorded requests */
+    reset() {
+      overrides.length = 0;
+      requests.length = 0;
+      requestHeaders.length = 0;
+    },
+    /** Start listening (port 0 = any free port); resolves to the base URL */
+    listen(port = 0) {
+      return new Promise((done) => {
+        server.listen(port, "127.0.0.1", () => done(`http://127.0.0.1:${server.address().port}`));
+      });
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((done) => server.close(() => done()));
+    },
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const mock = createMockNbaServer();
+  const url = await mock.listen(Number(process.env.PORT) || 9100);
+  console.log(`Mock NBA Stats server on ${url} (fixtures: ${DEFAULT_FIXTURES_DIR})`);
+  console.log(`Use it with NBA_STATS_PROXY_URL=${url} NBA_STATS_DIRECT_FALLBACK=off`);
+}
@@ -5,9 +5,22 @@
  *
  * Run: node server.js
  * Usage: GET ?url=<encodeURIComponent(https://stats.nba.com/stats/...)>
+ *        GET /healthz
+ *
+ * Environment:
+ *   PORT                   Listen port (default 8080, 0 = any free port)
+ *   PROXY_SECRET           Shared secret; requests must send it as X-Proxy-Secret (unset = open proxy)
+ *   CACHE_TTL_SECONDS      How long successful responses are cached in memory (default 300, 0 = off)
+ *   CACHE_MAX_ENTRIES      Cache size limit, oldest evicted first (default 1000)
+ *   RATE_LIMIT_PER_MINUTE  Requests per client IP per minute (default 120, 0 = off)
+ *   TRUST_PROXY_HOPS       Load balancers in front of the proxy that append to X-Forwarded-For (default 0:
+ *                          the header is ignored and the connection's address is the client IP)
+ *   UPSTREAM_TIMEOUT_MS    Give up on stats.nba.com after this long (default 15000)
+ *   NBA_UPSTREAM_ORIGIN    Send requests here instead of https://stats.nba.com (for a local stub)
  */
 
-const http = require("http");
+import http from "node:http";
+import { timingSafeEqual } from "node:crypto";
 
 const NBA_HEADERS = {
   Accept: "application/json, text/plain, */*",
@@ -18,33 +31,244 @@ const NBA_HEADERS = {
     "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
 };
 
-const PORT = process.env.PORT || 8080;
+const NBA_ORIGIN = "https://stats.nba.com";
+
+const PORT = Number(process.env.PORT || 8080);
+const PROXY_SECRET = process.env.PROXY_SECRET || "";
+const CACHE_TTL_MS = Number(process.env.CACHE_TTL_SECONDS ?? 300) * 1000;
+const CACHE_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 1000;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 120);
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+const UPSTREAM_TIMEOUT_MS = Number(process.env.UPSTREAM_TIMEOUT_MS) || 15000;
+const UPSTREAM_ORIGIN = (process.env.NBA_UPSTREAM_ORIGIN || NBA_ORIGIN).replace(/\/$/, "");
+
+// Small, always-available endpoint used by /healthz
+const HEALTH_CHECK_PATH = "/stats/commonteamyears?LeagueID=00";
+const HEALTH_CHECK_TTL_MS = 30 * 1000;
+
+/** One JSON object per line, so hosts like Render/Railway can filter by field */
+function log(level, msg, fields = {}) {
+  const line = JSON.stringify({ ts: new Date().toISOString(), level, msg, ...fields });
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * The address rate limits are keyed on. Clients can put anything in X-Forwarded-For, so only the
+ * entries appended by the TRUST_PROXY_HOPS load balancers in front of us count: the left-most of
+ * those is the address the outermost one saw.
+ */
+function clientIp(req) {
+  const socketIp = req.socket.remoteAddress || "unknown";
+  if (!TRUST_PROXY_HOPS) return socketIp;
+  const forwarded = [req.headers["x-forwarded-for"] ?? []]
+    .flat()
+    .join(",")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - TRUST_PROXY_HOPS] || socketIp;
+}
+
+/** The app's X-Request-Id, so proxy log lines can be matched with the app's */
+function requestId(req) {
+  const id = String(req.headers["x-request-id"] || "");
+  return /^[\w.-]{1,64}$/.test(id) ? id : undefined;
+}
+
+function hasValidSecret(req) {
+  if (!PROXY_SECRET) return true;
+  const given = Buffer.from(String(req.headers["x-proxy-secret"] || ""));
+  const expected = Buffer.from(PROXY_SECRET);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// --- Rate limiting: fixed one-minute window per client IP ---
+
+const rateWindows = new Map();
+
+/** Returns seconds until the client may retry, or 0 when the request is allowed */
+function rateLimit(ip) {
+  if (!RATE_LIMIT_PER_MINUTE) return 0;
+  const now = Date.now();
+  let window = rateWindows.get(ip);
+  if (!window || now >= window.resetAt) {
+    window = { count: 0, resetAt: now + 60 * 1000 };
+    rateWindows.set(ip, window);
+  }
+  window.count++;
+  return window.count > RATE_LIMIT_PER_MINUTE ? Math.ceil((window.resetAt - now) / 1000) : 0;
+}
+
+// Drop expired windows so idle clients don't accumulate
+setInterval(() => {
+  const now = Date.now();
+  for (const [ip, window] of rateWindows) {
+    if (now >= window.resetAt) rateWindows.delete(ip);
+  }
+}, 60 * 1000).unref();
+
+// --- Upstream fetch with response cache and in-flight request merging ---
+
+const cache = new Map(); // url -> { status, contentType, body, expiresAt }
+const inFlight = new Map(); // url -> Promise<{ status, contentType, body }>
+
+async function fetchUpstream(url) {
+  const upstreamUrl = UPSTREAM_ORIGIN + url.slice(NBA_ORIGIN.length);
+  const response = await fetch(upstreamUrl, {
+    headers: NBA_HEADERS,
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  return {
+    status: response.status,
+    contentType: response.headers.get("Content-Type") || "application/json",
+    body: await response.text(),
+  };
+}
+
+/** Returns the upstream result and how it was served: HIT, MISS or MERGED (joined an identical in-flight request) */
+async function getUpstream(url) {
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > Date.now()) {
+    return { result: cached, source: "HIT" };
+  }
+  cache.delete(url);
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    return { result: await pending, source: "MERGED" };
+  }
+
+  const request = fetchUpstream(url).finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  const result = await request;
+
+  if (result.status === 200 && CACHE_TTL_MS > 0) {
+    cache.set(url, { ...result, expiresAt: Date.now() + CACHE_TTL_MS });
+    while (cache.size > CACHE_MAX_ENTRIES) {
+      cache.delete(cache.keys().next().value);
+    }
+  }
+  return { result, source: "MISS" };
+}
+
+// --- Health check ---
+
+let lastHealth = null;
+let pendingHealth = null; // Concurrent checks share one upstream request, like getUpstream
+
+async function runHealthCheck() {
+  const started = Date.now();
+  try {
+    const { status } = await fetchUpstream(NBA_ORIGIN + HEALTH_CHECK_PATH);
+    lastHealth = { reachable: status === 200, status, latencyMs: Date.now() - started, checkedAt: Date.now() };
+  } catch (e) {
+    lastHealth = { reachable: false, error: e.message, latencyMs: Date.now() - started, checkedAt: Date.now() };
+  }
+  return lastHealth;
+}
+
+function checkUpstream() {
+  if (lastHealth && Date.now() - lastHealth.checkedAt < HEALTH_CHECK_TTL_MS) {
+    return Promise.resolve(lastHealth);
+  }
+  pendingHealth ??= runHealthCheck().finally(() => {
+    pendingHealth = null;
+  });
+  return pendingHealth;
+}
+
+// --- Server ---
 
 const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const ip = clientIp(req);
+  const id = requestId(req);
+
   if (req.method !== "GET") {
     res.writeHead(405).end();
     return;
   }
   const u = new URL(req.url || "", `http://localhost:${PORT}`);
+
+  if (u.pathname === "/healthz") {
+    const upstream = await checkUpstream();
+    sendJson(res, upstream.reachable ? 200 : 503, {
+      status: upstream.reachable ? "ok" : "degraded",
+      upstream: { ...upstream, checkedAt: new Date(upstream.checkedAt).toISOString() },
+      cache: { entries: cache.size, inFlight: inFlight.size },
+      uptimeSeconds: Math.round(process.uptime()),
+    });
+    return;
+  }
+
+  // Before the secret check, so wrong secrets count against the limit too
+  const retryAfter = rateLimit(ip);
+  if (retryAfter) {
+    log("warn", "Rate limited", { ip, requestId: id, retryAfter });
+    sendJson(res, 429, { error: "Too many requests" }, { "Retry-After": String(retryAfter) });
+    return;
+  }
+
+  if (!hasValidSecret(req)) {
+    log("warn", "Rejected request with missing or wrong secret", { ip, requestId: id });
+    sendJson(res, 401, { error: "Missing or invalid X-Proxy-Secret" });
+    return;
+  }
+
   const url = u.searchParams.get("url");
-  if (!url || !url.startsWith("https://stats.nba.com/")) {
-    res.writeHead(400, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Missing or invalid url query (must be stats.nba.com)" }));
+  if (!url || !url.startsWith(`${NBA_ORIGIN}/`)) {
+    sendJson(res, 400, { error: "Missing or invalid url query (must be stats.nba.com)" });
     return;
   }
+
   try {
-    const response = await fetch(url, { headers: NBA_HEADERS });
-    const body = await response.text();
-    res.writeHead(response.status, {
-      "Content-Type": response.headers.get("Content-Type") || "application/json",
+    const { result, source } = await getUpstream(url);
+    res.writeHead(result.status, {
+      "Content-Type": result.contentType,
+      "X-Proxy-Cache": source,
+      ...(id && { "X-Request-Id": id }),
+    });
+    res.end(result.body);
+    log(result.status >= 400 ? "warn" : "info", "Proxied request", {
+      ip,
+      requestId: id,
+      endpoint: new URL(url).pathname,
+      status: result.status,
+      cache: source,
+      durationMs: Date.now() - started,
     });
-    res.end(body);
   } catch (e) {
-    res.writeHead(502, { "Content-Type": "application/json" });
-    res.end(JSON.stringify({ error: "Proxy fetch failed", message: e.message }));
+    const timedOut = e.name === "TimeoutError";
+    log("error", "Proxy fetch failed", {
+      ip,
+      requestId: id,
+      endpoint: new URL(url).pathname,
+      error: e.message,
+      timedOut,
+      durationMs: Date.now() - started,
+    });
+    sendJson(res, timedOut ? 504 : 502, { error: "Proxy fetch failed", message: e.message });
   }
 });
 
 server.listen(PORT, () => {
-  console.log(`NBA Stats proxy listening on port ${PORT}`);
+  log("info", `NBA Stats proxy listening on port ${server.address().port}`, {
+    secretRequired: Boolean(PROXY_SECRET),
+    cacheTtlSeconds: CACHE_TTL_MS / 1000,
+    rateLimitPerMinute: RATE_LIMIT_PER_MINUTE,
+    trustProxyHops: TRUST_PROXY_HOPS,
+    upstream: UPSTREAM_ORIGIN,
+  });
+  if (!PROXY_SECRET) {
+    log("warn", "PROXY_SECRET is not set; anyone who finds this URL can use the proxy");
+  }
 });
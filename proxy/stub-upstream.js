@@ -0,0 +1,40 @@
+/**
+ * Stub stats.nba.com for trying the proxy locally without hitting NBA.
+ *
+ * Run: node stub-upstream.js            (listens on 9000)
+ *      NBA_UPSTREAM_ORIGIN=http://localhost:9000 PROXY_SECRET=dev node server.js
+ *      curl -H "X-Proxy-Secret: dev" "localhost:8080/?url=https%3A%2F%2Fstats.nba.com%2Fstats%2Fcommonallplayers"
+ *
+ * Paths starting with /stats/status/<code> answer with that status (e.g. /stats/status/403),
+ * /stats/slow waits 20s (to try timeouts); anything else returns an empty resultSets payload,
+ * after STUB_DELAY_MS (default 0) so concurrent requests overlap.
+ */
+
+import http from "node:http";
+
+const PORT = Number(process.env.PORT || 9000);
+const DELAY_MS = Number(process.env.STUB_DELAY_MS) || 0;
+let requests = 0;
+
+http
+  .createServer((req, res) => {
+    requests++;
+    const u = new URL(req.url || "", `http://localhost:${PORT}`);
+    console.log(`[stub] #${requests} ${u.pathname}${u.search}`);
+
+    const status = u.pathname.match(/^\/stats\/status\/(\d{3})/);
+    if (status) {
+      res.writeHead(Number(status[1]), { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: `stub status ${status[1]}` }));
+      return;
+    }
+
+    const respond = () => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ resource: u.pathname.split("/").pop(), parameters: {}, resultSets: [], stubRequest: requests }));
+    };
+    setTimeout(respond, u.pathname === "/stats/slow" ? 20000 : DELAY_MS);
+  })
+  .listen(PORT, function () {
+    console.log(`[stub] NBA Stats stub listening on port ${this.address().port}`);
+  });
@@ -0,0 +1,204 @@
+// @vitest-environment jsdom
+
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadFixture } from "@/mock/nba-server.mjs";
+import { SAVED_PLAYERS_STORAGE_KEY } from "@/lib/savedPlayers";
+import { calculateShotsToTarget } from "@/lib/shots";
+import { createApiFetch } from "./helpers/apiFetch";
+import { setupMockNba } from "./helpers/mockNba";
+
+const mock = setupMockNba();
+
+const JOKIC = { id: 203999, first_name: "Nikola", last_name: "Jokić" };
+
+// jsdom's File has no text()
+function jsonFile(content: string): File {
+  return Object.assign(new File([content], "players.json"), { text: async () => content });
+}
+
+// Search is debounced by 800ms before it hits the API
+const SEARCH_WAIT = { timeout: 3000 };
+
+beforeEach(() => {
+  vi.stubGlobal("fetch", createApiFetch(globalThis.fetch));
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  window.history.replaceState(null, "", "/");
+  window.localStorage.clear();
+});
+
+async function renderCalculator(props: Record<string, unknown> = {}) {
+  const { ShotsTo30Calculator } = await import("@/components/ShotsTo30Calculator");
+  return render(<ShotsTo30Calculator {...props} />);
+}
+
+describe("ShotsTo30Calculator", () => {
+  it("searches for a player and shows the shots to 30", async () => {
+    await renderCalculator({ initialSeason: "2024-25" });
+
+    fireEvent.change(screen.getByPlaceholderText("Search for a player..."), { target: { value: "jokic" } });
+    fireEvent.click(await screen.findByRole("button", { name: /Nikola Jokić/ }, SEARCH_WAIT));
+
+    const expected = calculateShotsToTarget(29.6, 19.5, 30)?.shots;
+    expect(await screen.findByText(String(expected))).toBeTruthy();
+    expect(screen.getByText("shots to score 30")).toBeTruthy();
+    expect(screen.getByText("(29.6 PPG, 19.5 FGA)")).toBeTruthy();
+    expect(screen.getByRole("link", { name: "Denver Nuggets roster →" }).getAttribute("href")).toBe(
+      "/team/1610612743?target=30&season=2024-25&seasonType=Regular+Season",
+    );
+    expect(screen.getByRole("link", { name: "Download CSV" }).getAttribute("href")).toBe(
+      "/api/v1/export?ids=203999&target=30&season=2024-25&seasonType=Regular+Season",
+    );
+  });
+
+  it("loads the player from a shared link", async () => {
+    await renderCalculator({ initialPlayerId: 203999, initialSeason: "2024-25", initialTarget: 50 });
+
+    expect(await screen.findByText("shots to score 50")).toBeTruthy();
+    expect(screen.getByText(String(calculateShotsToTarget(29.6, 19.5, 50)?.shots))).toBeTruthy();
+  });
+
+  it("renders server-loaded stats without fetching them again", async () => {
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const stats = await fetchPlayerSeasonAverages(203999, { season: "2024-25" });
+    const fetchSpy = vi.fn(createApiFetch(globalThis.fetch));
+    vi.stubGlobal("fetch", fetchSpy);
+
+    await renderCalculator({ initialPlayerId: 203999, initialStats: stats.data, initialSeason: "2024-25" });
+
+    expect(screen.getByText("shots to score 30")).toBeTruthy();
+    expect((screen.getByPlaceholderText("Search for a player...") as HTMLInputElement).value).toBe("Nikola Jokić");
+    expect(fetchSpy).not.toHaveBeenCalledWith(expect.stringContaining("/stats"));
+  });
+
+  it("adds a history entry per player and restores it on back", async () => {
+    await renderCalculator({ initialSeason: "2024-25" });
+
+    fireEvent.change(screen.getByPlaceholderText("Search for a player..."), { target: { value: "jokic" } });
+    fireEvent.click(await screen.findByRole("button", { name: /Nikola Jokić/ }, SEARCH_WAIT));
+    await screen.findByText("shots to score 30");
+    expect(window.location.pathname + window.location.search).toBe("/player/203999?season=2024-25");
+    const entries = window.history.length;
+
+    fireEvent.click(screen.getByRole("button", { name: "40" }));
+    expect(window.location.search).toBe("?target=40&season=2024-25");
+    expect(window.history.length).toBe(entries);
+
+    act(() => window.history.back());
+    await waitFor(() => expect(screen.queryByText("shots to score 40")).toBeNull());
+    expect(window.location.pathname + window.location.search).toBe("/?season=2024-25");
+    expect((screen.getByPlaceholderText("Search for a player...") as HTMLInputElement).value).toBe("");
+
+    act(() => window.history.forward());
+    expect(await screen.findByText("shots to score 40")).toBeTruthy();
+    expect((screen.getByPlaceholderText("Search for a player...") as HTMLInputElement).value).toBe("Nikola Jokić");
+  });
+
+  it("shows the opponent-adjusted projection with its sample size", async () => {
+    await renderCalculator({ initialPlayerId: 203999, initialSeason: "2024-25", initialOpponent: 1610612747 });
+
+    expect((await screen.findByText(/^vs LAL:/)).textContent).toBe("vs LAL: 19.3 shots to score 30");
+    expect(screen.getByText(/Season baseline 19.8 shots · LAL allow 47.1% FG \(league 46.4%\)/)).toBeTruthy();
+    expect(screen.getByText("3 games against LAL in 2024-25 (33 PPG, 21 FGA), weighted 38%")).toBeTruthy();
+  });
+
+  it("explains a season without games", async () => {
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" ? "playerdashboardbygeneralsplits-no-games" : undefined,
+    );
+    await renderCalculator({ initialPlayerId: 203999, initialSeason: "2025-26" });
+
+    expect(await screen.findByText("Player has no games in the 2025-26 Regular Season.")).toBeTruthy();
+  });
+
+  it("ignores a slower response for the previous season type", async () => {
+    mock.override((endpoint, params) => {
+      if (endpoint !== "playerdashboardbygeneralsplits") return undefined;
+      return params.get("SeasonType") === "Playoffs"
+        ? "playerdashboardbygeneralsplits-no-games"
+        : { delayMs: 500, body: loadFixture("playerdashboardbygeneralsplits") };
+    });
+    await renderCalculator({ initialPlayerId: 203999, initialSeason: "2024-25" });
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Season type" }), { target: { value: "Playoffs" } });
+    expect(await screen.findByText("Player has no games in the 2024-25 Playoffs.")).toBeTruthy();
+
+    // The Regular Season response arrives afterwards and must not replace the Playoffs result
+    await act(() => new Promise((resolve) => setTimeout(resolve, 700)));
+    expect(screen.queryByText("shots to score 30")).toBeNull();
+    expect(screen.getByText("Player has no games in the 2024-25 Playoffs.")).toBeTruthy();
+  });
+
+  it("explains a timeout", async () => {
+    process.env.NBA_FETCH_TIMEOUT_MS = "100";
+    mock.override((endpoint) => (endpoint === "playerdashboardbygeneralsplits" ? { delayMs: 1000 } : undefined));
+    await renderCalculator({ initialPlayerId: 203999, initialSeason: "2024-25" });
+
+    expect(await screen.findByText(/taking too long to respond/)).toBeTruthy();
+  });
+
+  it("explains a blocked search", async () => {
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+    await renderCalculator();
+
+    fireEvent.change(screen.getByPlaceholderText("Search for a player..."), { target: { value: "jokic" } });
+
+    expect(await screen.findByText(/NBA API blocked this request/, undefined, SEARCH_WAIT)).toBeTruthy();
+  });
+
+  it("remembers viewed players and favorites across sessions", async () => {
+    const { unmount } = await renderCalculator({ initialPlayerId: 203999, initialSeason: "2024-25" });
+
+    await screen.findByText("shots to score 30");
+    expect(await screen.findByText("Recent")).toBeTruthy();
+    fireEvent.click(screen.getByRole("button", { name: "☆ Add to favorites" }));
+    expect(screen.getByRole("button", { name: "★ Favorite" })).toBeTruthy();
+    expect(JSON.parse(window.localStorage.getItem(SAVED_PLAYERS_STORAGE_KEY) ?? "{}")).toEqual({
+      version: 1,
+      favorites: [JOKIC],
+      recents: [JOKIC],
+    });
+    unmount();
+
+    await renderCalculator({ initialSeason: "2024-25" });
+    fireEvent.click(await screen.findByRole("button", { name: "★ Nikola Jokić" }));
+
+    expect(await screen.findByText("shots to score 30")).toBeTruthy();
+    expect(window.location.pathname).toBe("/player/203999");
+  });
+
+  it("refreshes the shots for every favorite in one request", async () => {
+    window.localStorage.setItem(
+      SAVED_PLAYERS_STORAGE_KEY,
+      JSON.stringify({ version: 1, favorites: [JOKIC, { id: 1629029, first_name: "Luka", last_name: "Dončić" }] }),
+    );
+    const fetchSpy = vi.fn(createApiFetch(globalThis.fetch));
+    vi.stubGlobal("fetch", fetchSpy);
+    await renderCalculator({ initialSeason: "2024-25" });
+
+    fireEvent.click(await screen.findByRole("button", { name: "Refresh all (shots to 30)" }));
+
+    expect(await screen.findByRole("button", { name: "★ Nikola Jokić · 19.8" }, { timeout: 3000 })).toBeTruthy();
+    expect(screen.getByRole("button", { name: /^★ Luka Dončić · [\d.]+$/ })).toBeTruthy();
+    // The route handlers' own NBA requests go through fetch too
+    expect(fetchSpy.mock.calls.map(([url]) => url).filter((url) => String(url).startsWith("/api/"))).toEqual([
+      "/api/v1/export?format=json&ids=203999%2C1629029&target=30&seasonType=Regular+Season&season=2024-25",
+    ]);
+  });
+
+  it("imports favorites from a JSON file and explains a bad one", async () => {
+    await renderCalculator();
+    const input = await screen.findByLabelText("Import saved players");
+
+    fireEvent.change(input, { target: { files: [jsonFile("nope")] } });
+    expect(await screen.findByText("Not a JSON file")).toBeTruthy();
+
+    fireEvent.change(input, { target: { files: [jsonFile(JSON.stringify({ version: 1, favorites: [JOKIC], recents: [] }))] } });
+    expect(await screen.findByRole("button", { name: "Remove Nikola Jokić from favorites" })).toBeTruthy();
+    expect(screen.queryByText("Not a JSON file")).toBeNull();
+  });
+});
@@ -0,0 +1,498 @@
+import { describe, expect, it } from "vitest";
+import { loadFixture } from "@/mock/nba-server.mjs";
+import { createApiFetch } from "./helpers/apiFetch";
+import { setupMockNba } from "./helpers/mockNba";
+
+const mock = setupMockNba();
+
+async function getStats(id: string, query = "", headers?: HeadersInit) {
+  const { GET } = await import("@/app/api/players/[id]/stats/route");
+  return GET(new Request(`http://localhost/api/players/${id}/stats${query}`, { headers }), {
+    params: Promise.resolve({ id }),
+  });
+}
+
+async function getCalculate(id: string, query = "") {
+  const { GET } = await import("@/app/api/players/[id]/calculate/route");
+  return GET(new Request(`http://localhost/api/players/${id}/calculate${query}`), { params: Promise.resolve({ id }) });
+}
+
+async function getTeam(id: string, query = "") {
+  const { GET } = await import("@/app/api/teams/[id]/route");
+  return GET(new Request(`http://localhost/api/teams/${id}${query}`), { params: Promise.resolve({ id }) });
+}
+
+async function getMatchup(id: string, query: string) {
+  const { GET } = await import("@/app/api/players/[id]/matchup/route");
+  return GET(new Request(`http://localhost/api/players/${id}/matchup${query}`), { params: Promise.resolve({ id }) });
+}
+
+const PLAYER_ROUTES = {
+  splits: () => import("@/app/api/players/[id]/splits/route"),
+  gamelog: () => import("@/app/api/players/[id]/gamelog/route"),
+  career: () => import("@/app/api/players/[id]/career/route"),
+};
+
+async function getPlayerRoute(route: keyof typeof PLAYER_ROUTES, id: string, query = "") {
+  const { GET } = await PLAYER_ROUTES[route]();
+  return GET(new Request(`http://localhost/api/players/${id}/${route}${query}`), { params: Promise.resolve({ id }) });
+}
+
+async function getLeaderboard(query = "") {
+  const { GET } = await import("@/app/api/leaderboard/route");
+  return GET(new Request(`http://localhost/api/leaderboard${query}`));
+}
+
+async function getSearch(query: string) {
+  const { GET } = await import("@/app/api/players/search/route");
+  return GET(new Request(`http://localhost/api/players/search${query}`));
+}
+
+describe("GET /api/players/[id]/stats", () => {
+  it("returns the player's season stats and the path that served them", async () => {
+    const response = await getStats("203999", "?season=2024-25");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toMatchObject({ pts: 29.6, fga: 19.5, season: "2024-25", player: { last_name: "Jokić" } });
+    expect(response.headers.get("X-Upstream-Path")).toMatch(/^proxy:127\.0\.0\.1:\d+$/);
+  });
+
+  it("sends the request ID to the proxy and returns it", async () => {
+    const response = await getStats("203999", "?season=2024-25", { "X-Request-Id": "trace-123" });
+
+    expect(response.headers.get("X-Request-Id")).toBe("trace-123");
+    expect(mock.requestHeaders.map((headers) => headers["x-request-id"])).toEqual(["trace-123", "trace-123"]);
+  });
+
+  it("replaces an unusable request ID with a new one", async () => {
+    const response = await getStats("203999", "?season=2024-25", { "X-Request-Id": "not a valid id!" });
+    const requestId = response.headers.get("X-Request-Id");
+
+    expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(mock.requestHeaders[0]["x-request-id"]).toBe(requestId);
+  });
+
+  it("rejects bad input with a 400", async () => {
+    const response = await getStats("203999", "?season=2024");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "InvalidInput" });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("maps a season without games to 404 NoSeasonData", async () => {
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" ? "playerdashboardbygeneralsplits-no-games" : undefined,
+    );
+    const response = await getStats("203999", "?season=2025-26");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: "Player has no games in the 2025-26 Regular Season.",
+      code: "NoSeasonData",
+      season: "2025-26",
+      season_type: "Regular Season",
+    });
+  });
+
+  it("maps a blocked upstream to 502 UpstreamBlocked", async () => {
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+    const response = await getStats("203999", "?season=2024-25");
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: "UpstreamBlocked", status: 403 });
+  });
+});
+
+describe("GET /api/players/[id]/calculate", () => {
+  it("calculates the shots to the requested target", async () => {
+    const response = await getCalculate("203999", "?season=2024-25&target=40");
+    const { data } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ pts: 29.6, fga: 19.5, mode: "naive", target: 40, pointsPerShot: 1.518, shots: 26.4 });
+    expect(data).not.toHaveProperty("trueShooting");
+  });
+
+  it("defaults to 30 and adds the true shooting view on request", async () => {
+    const { data } = await (await getCalculate("203999", "?season=2024-25&mode=ts")).json();
+
+    expect(data).toMatchObject({ target: 30, shots: 19.8, mode: "true-shooting", trueShooting: { target: 30 } });
+  });
+
+  it.each(["0", "201", "12.5", "thirty"])("rejects target=%s with a 400", async (target) => {
+    const response = await getCalculate("203999", `?target=${target}`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Invalid target (must be a whole number from 1 to 200)",
+      code: "InvalidInput",
+    });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("answers 422 NoAttempts for a player without points", async () => {
+    mock.override((endpoint) => {
+      if (endpoint !== "playerdashboardbygeneralsplits") return undefined;
+      const dashboard = loadFixture("playerdashboardbygeneralsplits");
+      const overall = dashboard.resultSets[0];
+      overall.rowSet[0][overall.headers.indexOf("PTS")] = 0;
+      return { body: dashboard };
+    });
+    const response = await getCalculate("203999", "?season=2024-25");
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: "NoAttempts" });
+  });
+});
+
+describe("GET /api/players/[id]/matchup", () => {
+  const LAL = 1610612747;
+
+  it("projects the player against the opponent next to the season baseline", async () => {
+    const response = await getMatchup("203999", `?opponent=${LAL}&season=2024-25`);
+    const { data } = await response.json();
+    const { projectMatchup } = await import("@/lib/matchup");
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      season: "2024-25",
+      opponent: { abbreviation: "LAL" },
+      baseline: { pts: 29.6, fga: 19.5 },
+      split: { opponent_team_id: LAL, gp: 3, pts: 33, fga: 21 },
+      defense: { team_id: LAL, opp_fg_pct: 0.471, league_opp_fg_pct: 0.464 },
+    });
+    expect(data.projection).toEqual(projectMatchup(data, 30));
+    expect(data.projection).toMatchObject({ shots: 19.3, splitWeight: 0.38, smallSample: false });
+    expect(data.projection.baseline.shots).toBe(19.8);
+    expect(
+      mock.requestsTo("playerdashboardbygeneralsplits").map((url) => url.searchParams.get("OpponentTeamID")),
+    ).toEqual(["0", String(LAL)]);
+  });
+
+  it("rejects a missing opponent", async () => {
+    const response = await getMatchup("203999", "?season=2024-25");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "InvalidInput" });
+  });
+
+  it("still projects when the opponent has no defensive data for the season", async () => {
+    mock.override((endpoint) =>
+      endpoint === "leaguedashteamstats"
+        ? { body: { resultSets: [{ ...loadFixture("leaguedashteamstats").resultSets[0], rowSet: [] }] } }
+        : undefined,
+    );
+    const response = await getMatchup("203999", `?opponent=${LAL}&season=2024-25`);
+    const { data } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.defense).toBeNull();
+    expect(data.projection.defenseFactor).toBe(1);
+  });
+
+  it("leaves the defense out when the league has no attempts to compare against", async () => {
+    mock.override((endpoint) => {
+      if (endpoint !== "leaguedashteamstats") return undefined;
+      const teams = loadFixture("leaguedashteamstats");
+      const { headers, rowSet } = teams.resultSets[0];
+      for (const row of rowSet) {
+        row[headers.indexOf("OPP_FGM")] = 0;
+        row[headers.indexOf("OPP_FGA")] = 0;
+      }
+      return { body: teams };
+    });
+    const response = await getMatchup("203999", `?opponent=${LAL}&season=2024-25`);
+    const { data } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.defense).toBeNull();
+    expect(data.projection.defenseFactor).toBe(1);
+    expect(data.projection.shots).toEqual(expect.any(Number));
+  });
+});
+
+describe("GET /api/players/search", () => {
+  it("returns ranked matches with pagination meta", async () => {
+    const response = await getSearch("?q=luka");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data[0]).toMatchObject({ id: 1629029, display_name: "Luka Dončić" });
+    expect(body.meta).toEqual({ total_pages: 1, current_page: 1, next_page: null, per_page: 25, total_count: 1 });
+  });
+
+  it("returns an empty page without calling NBA when there is no query", async () => {
+    const response = await getSearch("");
+
+    expect(await response.json()).toMatchObject({ data: [], meta: { total_count: 0 } });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("rejects an invalid page", async () => {
+    const response = await getSearch("?q=luka&page=0");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "InvalidInput" });
+  });
+
+  it("keeps the list shape and explains an upstream failure", async () => {
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+    const response = await getSearch("?q=luka");
+    const body = await response.json();
+
+    expect(response.status).toBe(502);
+    expect(body).toMatchObject({ data: [], code: "UpstreamBlocked" });
+    expect(body.error).toContain("blocked");
+  });
+});
+
+describe("GET /api/teams/[id]", () => {
+  const DEN = "1610612743";
+
+  it("ranks the roster by efficiency, players without attempts last", async () => {
+    const response = await getTeam(DEN, "?season=2024-25&target=40");
+    const { data } = await response.json();
+    const ids = data.players.map((player: { player_id: number }) => player.player_id);
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ team: { abbreviation: "DEN" }, season: "2024-25", target: 40 });
+    expect(data.players).toHaveLength(8);
+    expect(data.players[0]).toMatchObject({ player_name: "Christian Braun", number: "0", position: "G-F" });
+    expect(data.players.at(-1)).toMatchObject({ player_name: "DaRon Holmes II", gp: 0, shots: null });
+    // Traded away mid-season: stats for the team, but not on the roster
+    expect(ids).not.toContain(1630192);
+    const pointsPerShot = data.players.slice(0, -1).map((player: { pointsPerShot: number }) => player.pointsPerShot);
+    expect(pointsPerShot).toEqual([...pointsPerShot].sort((a, b) => b - a));
+  });
+
+  it("rejects an unknown team", async () => {
+    const response = await getTeam("123");
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: "InvalidInput" });
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("maps a season without games to 404 NoSeasonData", async () => {
+    const noGames = loadFixture("teamplayerdashboard");
+    for (const resultSet of noGames.resultSets) resultSet.rowSet = [];
+    mock.override((endpoint) => (endpoint === "teamplayerdashboard" ? { body: noGames } : undefined));
+    const response = await getTeam(DEN, "?season=2024-25&seasonType=Playoffs");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({
+      code: "NoSeasonData",
+      error: "Denver Nuggets has no games in the 2024-25 Playoffs.",
+    });
+  });
+});
+
+describe("GET /api/players/[id]/{splits,gamelog,career} and /api/leaderboard", () => {
+  const routes = [
+    ["splits", () => getPlayerRoute("splits", "203999", "?season=2024-25")],
+    ["gamelog", () => getPlayerRoute("gamelog", "203999", "?season=2024-25")],
+    ["career", () => getPlayerRoute("career", "203999")],
+    ["leaderboard", () => getLeaderboard("?season=2024-25")],
+  ] as const;
+
+  it.each(routes)("%s maps a blocked upstream to 502 UpstreamBlocked", async (_, get) => {
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+    const response = await get();
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: "UpstreamBlocked", status: 403 });
+  });
+
+  it.each(routes)("%s maps a changed response format to 502 SchemaChanged", async (_, get) => {
+    mock.override(() => ({ body: { resultSets: [] } }));
+    const response = await get();
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: "SchemaChanged" });
+  });
+
+  it("returns every split group in display order with its shots to the target", async () => {
+    // Recent form comes from separate LastNGames queries of the same dashboard
+    const recent: Record<string, [number, number, number]> = { "5": [5, 33, 20], "10": [10, 27, 18] };
+    mock.override((endpoint, params) => {
+      const line = recent[params.get("LastNGames") ?? ""];
+      if (endpoint !== "playerdashboardbygeneralsplits" || !line) return undefined;
+      const dashboard = loadFixture("playerdashboardbygeneralsplits");
+      const overall = dashboard.resultSets[0];
+      const row = overall.rowSet[0];
+      [row[overall.headers.indexOf("GP")], row[overall.headers.indexOf("PTS")], row[overall.headers.indexOf("FGA")]] = line;
+      return { body: dashboard };
+    });
+    const response = await getPlayerRoute("splits", "203999", "?season=2024-25");
+    const { data } = await response.json();
+    const group = (name: string) =>
+      data.splits
+        .filter((split: { group: string }) => split.group === name)
+        .map(({ label, gp, pts, fga, shots }: Record<string, unknown>) => ({ label, gp, pts, fga, shots }));
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ player_id: 203999, season: "2024-25", season_type: "Regular Season", target: 30 });
+    expect([...new Set(data.splits.map((split: { group: string }) => split.group))]).toEqual([
+      "Location",
+      "Outcome",
+      "Last N Games",
+      "Month",
+      "All-Star Break",
+      "Starting Position",
+      "Days Rest",
+    ]);
+    expect(group("Location")).toEqual([
+      { label: "Home", gp: 35, pts: 30.5, fga: 19.6, shots: 19.3 },
+      { label: "Road", gp: 35, pts: 28.7, fga: 19.4, shots: 20.3 },
+    ]);
+    expect(group("Last N Games")).toEqual([
+      { label: "Last 5", gp: 5, pts: 33, fga: 20, shots: 18.2 },
+      { label: "Last 10", gp: 10, pts: 27, fga: 18, shots: 20 },
+    ]);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits").map((url) => url.searchParams.get("LastNGames")).sort()).toEqual([
+      "0",
+      "10",
+      "5",
+    ]);
+  });
+
+  it.each([
+    ["after", (rows: unknown[][]) => rows],
+    ["before", (rows: unknown[][]) => [...rows].reverse()],
+  ])("uses the TOT row of a traded season, listed %s the team rows", async (_, order) => {
+    mock.override((endpoint) => {
+      if (endpoint !== "playercareerstats") return undefined;
+      const career = loadFixture("playercareerstats");
+      career.resultSets[0].rowSet = order(career.resultSets[0].rowSet);
+      return { body: career };
+    });
+    const response = await getPlayerRoute("career", "1629029");
+    const { data } = await response.json();
+    const traded = data.seasons.filter((season: { season: string }) => season.season === "2024-25");
+
+    expect(response.status).toBe(200);
+    expect(traded).toEqual([
+      { season: "2024-25", season_type: "Regular Season", team: "TOT", gp: 50, pts: 28.2, fga: 21.1, shots: 22.4 },
+    ]);
+  });
+
+  it("lists career seasons oldest first with their shots to the target", async () => {
+    const response = await getPlayerRoute("career", "1629029");
+    const { data } = await response.json();
+
+    expect(data).toMatchObject({ player_id: 1629029, target: 30 });
+    expect(data.seasons).toHaveLength(11);
+    // Playoffs sort ahead of the regular season of the same year
+    expect(data.seasons.slice(0, 3)).toEqual([
+      { season: "2018-19", season_type: "Regular Season", team: "DAL", gp: 72, pts: 21.2, fga: 16.5, shots: 23.3 },
+      { season: "2019-20", season_type: "Playoffs", team: "DAL", gp: 6, pts: 31, fga: 23.8, shots: 23 },
+      { season: "2019-20", season_type: "Regular Season", team: "DAL", gp: 61, pts: 28.8, fga: 20.6, shots: 21.5 },
+    ]);
+    expect(data.seasons.map((season: { shots: number }) => season.shots)).toEqual([
+      23.3, 23, 21.5, 21.3, 22.2, 21.1, 22.8, 20.4, 24.3, 20.9, 22.4,
+    ]);
+  });
+
+  it("maps a season without splits to 404 NoSeasonData", async () => {
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" ? "playerdashboardbygeneralsplits-no-games" : undefined,
+    );
+    const response = await getPlayerRoute("splits", "203999", "?season=2025-26");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ code: "NoSeasonData", season: "2025-26" });
+  });
+
+  it("rejects bad input with a 400 InvalidInput", async () => {
+    for (const response of [
+      await getPlayerRoute("splits", "203999", "?target=0"),
+      await getPlayerRoute("gamelog", "abc"),
+      await getPlayerRoute("career", "-1"),
+      await getLeaderboard("?season=2024"),
+    ]) {
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: "InvalidInput" });
+    }
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe("GET /api/players/stats", () => {
+  const apiFetch = createApiFetch(globalThis.fetch);
+  const getBatch = async (query: string) => {
+    const response = await apiFetch(`/api/players/stats${query}`);
+    return { status: response.status, body: await response.json() };
+  };
+
+  /** The recorded dashboard with the player's season line replaced */
+  function seasonLine(pts: number, fga: number) {
+    const dashboard = loadFixture("playerdashboardbygeneralsplits");
+    const overall = dashboard.resultSets.find((resultSet: { name: string }) => resultSet.name === "OverallPlayerDashboard");
+    overall.rowSet[0][overall.headers.indexOf("PTS")] = pts;
+    overall.rowSet[0][overall.headers.indexOf("FGA")] = fga;
+    return { body: dashboard };
+  }
+
+  it("ranks players by fewest shots and lists the ones without usable stats", async () => {
+    const lines: Record<string, ReturnType<typeof seasonLine> | string> = {
+      "1": seasonLine(20, 20),
+      "2": seasonLine(30, 15),
+      "3": "playerdashboardbygeneralsplits-no-games",
+      "4": seasonLine(0, 5),
+      "5": seasonLine(25, 20),
+    };
+    mock.override((endpoint, params) =>
+      endpoint === "playerdashboardbygeneralsplits" ? lines[params.get("PlayerID") ?? ""] : undefined,
+    );
+    const { status, body } = await getBatch("?ids=1,2,3,4,5&season=2024-25");
+
+    expect(status).toBe(200);
+    expect(body.target).toBe(30);
+    expect(body.data.map(({ rank, player, shots }: { rank: number; player: { id: number }; shots: number }) => [rank, player.id, shots])).toEqual([
+      [1, 2, 15],
+      [2, 5, 24],
+      [3, 1, 30],
+    ]);
+    expect(body.errors).toEqual([
+      expect.objectContaining({ id: 3, code: "NoSeasonData", error: "Player has no games in the 2024-25 Regular Season." }),
+      { id: 4, code: "NoSeasonData", error: "Player has no points this season" },
+    ]);
+  });
+
+  it("fetches each player once, at most three at a time", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mock.override((endpoint) => {
+      if (endpoint !== "playerdashboardbygeneralsplits") return undefined;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => inFlight--, 100);
+      return { delayMs: 100, body: loadFixture("playerdashboardbygeneralsplits") };
+    });
+    const { status, body } = await getBatch("?ids=1,2,2,3,4,5,6,1&season=2024-25&target=40");
+
+    expect(status).toBe(200);
+    expect(body.data).toHaveLength(6);
+    expect(body.data[0].shots).toBe(26.4);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits").map((url) => url.searchParams.get("PlayerID")).sort()).toEqual(
+      ["1", "2", "3", "4", "5", "6"],
+    );
+    expect(maxInFlight).toBe(3);
+  });
+
+  it.each([
+    ["?ids=1,2,3,4,5,6,7", "Too many ids (max 6)"],
+    ["?ids=", "Invalid ids (expected comma-separated player IDs)"],
+    ["?ids=1,abc", "Invalid ids (expected comma-separated player IDs)"],
+    ["?ids=1&target=500", "Invalid target"],
+  ])("rejects %s before calling NBA", async (query, error) => {
+    const { status, body } = await getBatch(query);
+
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: "InvalidInput" });
+    expect(body.error).toContain(error);
+    expect(mock.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import { setupMockNba } from "./helpers/mockNba";
+
+const mock = setupMockNba();
+
+const LAL = 1610612747;
+const DEN = 1610612743;
+
+async function get(path: string, headers?: HeadersInit) {
+  const request = new Request(`http://localhost/api/v1${path}`, { headers });
+  const { pathname } = new URL(request.url);
+  const id = pathname.match(/^\/api\/v1\/(?:players|teams)\/([^/]+)/)?.[1] ?? "";
+  const context = { params: Promise.resolve({ id }) };
+
+  if (pathname === "/api/v1/players") return (await import("@/app/api/v1/players/route")).GET(request);
+  if (pathname === "/api/v1/leaderboard") return (await import("@/app/api/v1/leaderboard/route")).GET(request);
+  if (pathname === "/api/v1/export") return (await import("@/app/api/v1/export/route")).GET(request);
+  if (pathname === "/api/v1/openapi.json") return (await import("@/app/api/v1/openapi.json/route")).GET(request);
+  if (pathname.endsWith("/shots")) return (await import("@/app/api/v1/players/[id]/shots/route")).GET(request, context);
+  if (pathname.startsWith("/api/v1/teams/")) return (await import("@/app/api/v1/teams/[id]/route")).GET(request, context);
+  return (await import("@/app/api/v1/players/[id]/route")).GET(request, context);
+}
+
+describe("/api/v1 envelope and caching", () => {
+  it("wraps data with meta and sets ETag and Cache-Control", async () => {
+    const response = await get("/players/203999?season=2024-25");
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toEqual({ data: expect.objectContaining({ pts: 29.6, season: "2024-25" }), meta: {} });
+    expect(response.headers.get("ETag")).toMatch(/^"[\w-]+"$/);
+    expect(response.headers.get("Cache-Control")).toContain("max-age=300");
+    expect(response.headers.get("X-Request-Id")).toBeTruthy();
+  });
+
+  it("answers a matching If-None-Match with an empty 304", async () => {
+    const first = await get("/players/203999?season=2024-25");
+    const tag = first.headers.get("ETag") ?? "";
+
+    const second = await get("/players/203999?season=2024-25", { "If-None-Match": `W/${tag}, "other"` });
+
+    expect(second.status).toBe(304);
+    expect(second.headers.get("ETag")).toBe(tag);
+    expect(await second.text()).toBe("");
+  });
+
+  it("returns errors as { error: { code, message } } and never caches them", async () => {
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" ? "playerdashboardbygeneralsplits-no-games" : undefined,
+    );
+    const response = await get("/players/203999?season=2025-26");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "NoSeasonData",
+        message: "Player has no games in the 2025-26 Regular Season.",
+        season: "2025-26",
+        season_type: "Regular Season",
+      },
+    });
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(response.headers.get("ETag")).toBeNull();
+  });
+
+  it.each([
+    ["/players/12abc", "Invalid player ID"],
+    ["/players/0/shots", "Invalid player ID"],
+    ["/players/203999?season=2024", "Invalid season"],
+    ["/players/203999/shots?target=0", "Invalid target"],
+    ["/players/203999/shots?opponent=42", "Invalid opponent"],
+    ["/players?q=jokic&per_page=500", "Invalid page or per_page"],
+    ["/players", "Missing q"],
+    ["/teams/DEN", "Invalid team ID"],
+  ])("rejects %s before calling NBA", async (path, message) => {
+    const response = await get(path);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe("InvalidInput");
+    expect(body.error.message).toContain(message);
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe("GET /api/v1/players/{id}/shots", () => {
+  it("calculates on the server", async () => {
+    const response = await get("/players/203999/shots?season=2024-25&target=40");
+    const { data } = await response.json();
+
+    expect(data).toMatchObject({
+      player: { id: 203999 },
+      target: 40,
+      pts: 29.6,
+      fga: 19.5,
+      shots: 26.4,
+      points_per_shot: 1.518,
+      true_shooting: {
+        ts_pct: 0.663,
+        fga: 26.4,
+        ft_trips: 3.8,
+        fta: 8.6,
+        breakdown: {
+          twos: { attempts: 20, points: 24.9 },
+          threes: { attempts: 6.4, points: 8.1 },
+          free_throws: { attempts: 8.6, points: 7 },
+        },
+      },
+      matchup: null,
+    });
+  });
+
+  it("adds the projection against an opponent", async () => {
+    const response = await get(`/players/203999/shots?season=2024-25&opponent=${LAL}`);
+    const { data } = await response.json();
+
+    expect(data.shots).toBe(19.8);
+    expect(data.matchup).toMatchObject({
+      opponent: { abbreviation: "LAL" },
+      shots: 19.3,
+      split: { gp: 3, pts: 33, fga: 21 },
+      split_weight: 0.38,
+      small_sample: false,
+    });
+  });
+});
+
+describe("GET /api/v1/players", () => {
+  it("searches with pagination meta", async () => {
+    const response = await get("/players?q=luka");
+    const body = await response.json();
+
+    expect(body.data[0]).toMatchObject({ id: 1629029, display_name: "Luka Dončić" });
+    expect(body.meta).toEqual({ total_pages: 1, current_page: 1, next_page: null, per_page: 25, total_count: 1 });
+  });
+});
+
+describe("GET /api/v1/leaderboard and /api/v1/teams/{id}", () => {
+  it("uses snake_case for calculated fields", async () => {
+    const leaderboard = await (await get("/leaderboard?season=2024-25&per_page=2")).json();
+    const team = await (await get(`/teams/${DEN}?season=2024-25`)).json();
+
+    expect(leaderboard.data[0]).toHaveProperty("points_per_shot");
+    expect(leaderboard.data[0]).not.toHaveProperty("pointsPerShot");
+    expect(leaderboard.meta).toMatchObject({ current_page: 1, per_page: 2, target: 30, sort: "shots" });
+    expect(team.data.players[0]).toHaveProperty("points_per_shot");
+    expect(team.data.team).toMatchObject({ abbreviation: "DEN" });
+  });
+
+  it("answers 404 NotFound for an unknown team", async () => {
+    const response = await get("/teams/42");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.code).toBe("NotFound");
+  });
+
+  it("maps a failed league lookup to the NBA error, for the leaderboard and its export", async () => {
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+
+    for (const response of [await get("/leaderboard?season=2024-25"), await get("/export?season=2024-25")]) {
+      expect(response.status).toBe(502);
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      expect((await response.json()).error).toMatchObject({ code: "UpstreamBlocked", status: 403 });
+    }
+  });
+});
+
+describe("GET /api/v1/export", () => {
+  it("exports the listed players as CSV, keeping a row for each failed lookup", async () => {
+    mock.override((endpoint, params) =>
+      endpoint === "playerdashboardbygeneralsplits" && params.get("PlayerID") === "1629029"
+        ? "playerdashboardbygeneralsplits-no-games"
+        : undefined,
+    );
+    const response = await get("/export?ids=203999,1629029,203999&season=2024-25&target=40");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="shots-to-40-2024-25.csv"');
+    expect((await response.text()).split("\r\n")).toEqual([
+      "player_id,player_name,team,season,season_type,target,pts,fga,points_per_shot,shots,error",
+      "203999,Nikola Jokić,DEN,2024-25,Regular Season,40,29.6,19.5,1.518,26.4,",
+      "1629029,,,2024-25,Regular Season,40,,,,,Player has no games in the 2024-25 Regular Season.",
+      "",
+    ]);
+    // The failed row must not be cached once NBA Stats has the player again
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    expect(response.headers.get("ETag")).toBeNull();
+  });
+
+  it("caches an export only when every row succeeded", async () => {
+    const complete = await get("/export?format=json&ids=203999&season=2024-25");
+    mock.override((endpoint) => (endpoint === "playerdashboardbygeneralsplits" ? { status: 403, body: "Forbidden" } : undefined));
+    const partial = await get("/export?format=json&ids=203999,1629029&season=2025-26");
+
+    expect(complete.headers.get("ETag")).toBeTruthy();
+    expect(complete.headers.get("Cache-Control")).toContain("max-age=300");
+    expect(partial.status).toBe(200);
+    expect(partial.headers.get("Cache-Control")).toBe("no-store");
+    expect(partial.headers.get("ETag")).toBeNull();
+    expect((await partial.json()).data[0].error).toContain("blocked");
+  });
+
+  it("exports the whole filtered leaderboard as JSON", async () => {
+    const response = await get("/export?format=json&season=2024-25&minGames=60&page=2&per_page=1");
+    const { data, meta } = await response.json();
+
+    expect(meta).toEqual({ target: 30, season: "2024-25", season_type: "Regular Season", count: data.length });
+    expect(data.length).toBeGreaterThan(1);
+    expect(data[0]).toMatchObject({ player_id: expect.any(Number), points_per_shot: expect.any(Number), error: "" });
+    expect(data.map((row: { shots: number }) => row.shots)).toEqual(
+      [...data.map((row: { shots: number }) => row.shots)].sort((a, b) => a - b),
+    );
+  });
+
+  it("rejects too many ids and unknown formats", async () => {
+    const ids = Array.from({ length: 51 }, (_, index) => index + 1).join(",");
+
+    expect((await (await get(`/export?ids=${ids}`)).json()).error.message).toBe("Too many ids (max 50)");
+    expect((await (await get("/export?ids=203999&format=xlsx")).json()).error.code).toBe("InvalidInput");
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe("GET /api/v1/openapi.json", () => {
+  it("documents every v1 route with the limits the routes enforce", async () => {
+    const response = await get("/openapi.json");
+    const document = await response.json();
+
+    expect(response.headers.get("ETag")).toBeTruthy();
+    expect(document.openapi).toBe("3.1.0");
+    expect(Object.keys(document.paths)).toEqual([
+      "/players",
+      "/players/{id}",
+      "/players/{id}/shots",
+      "/leaderboard",
+      "/teams/{id}",
+      "/export",
+      "/openapi.json",
+    ]);
+    const target = document.paths["/players/{id}/shots"].get.parameters.find(
+      (param: { name: string }) => param.name === "target",
+    );
+    expect(target.schema).toEqual({ type: "integer", minimum: 1, maximum: 200, default: 30 });
+  });
+});
@@ -0,0 +1,224 @@
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cachedFetch,
+  createFileStore,
+  createMemoryStore,
+  createTieredStore,
+  getCachePolicy,
+  type CacheEntry,
+  type CachePolicy,
+} from "@/lib/cache";
+
+const POLICY: CachePolicy = { ttl: 60, staleWhileRevalidate: 60, staleIfError: 600 };
+
+const ENTRY: CacheEntry = { body: "{}", status: 200, contentType: "application/json", storedAt: 0 };
+
+/** A fetcher answering with each body in turn (the last one repeats); a number is an error status */
+function upstream(...bodies: Array<string | number>) {
+  let call = 0;
+  return vi.fn(async () => {
+    const body = bodies[Math.min(call++, bodies.length - 1)];
+    return typeof body === "number"
+      ? new Response("error", { status: body, headers: { "X-Served-By": "direct" } })
+      : new Response(body, { headers: { "Content-Type": "application/json", "X-Served-By": "proxy:test" } });
+  });
+}
+
+async function read(response: Response) {
+  return { cache: response.headers.get("X-Cache"), status: response.status, body: await response.text() };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const seconds = (s: number) => vi.setSystemTime(Date.now() + s * 1000);
+
+describe("cachedFetch", () => {
+  it("misses, then hits within the TTL", async () => {
+    const store = createMemoryStore();
+    const fetcher = upstream("one", "two");
+
+    expect(await read(await cachedFetch("k", POLICY, fetcher, store))).toEqual({ cache: "MISS", status: 200, body: "one" });
+    seconds(30);
+    const hit = await cachedFetch("k", POLICY, fetcher, store);
+
+    expect(await read(hit)).toEqual({ cache: "HIT", status: 200, body: "one" });
+    expect(hit.headers.get("Age")).toBe("30");
+    expect(hit.headers.get("X-Served-By")).toBe("proxy:test");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("serves a stale entry while revalidating in the background", async () => {
+    const store = createMemoryStore();
+    const fetcher = upstream("one", "two");
+    await cachedFetch("k", POLICY, fetcher, store);
+    seconds(90);
+
+    expect(await read(await cachedFetch("k", POLICY, fetcher, store))).toMatchObject({ cache: "STALE", body: "one" });
+    await vi.waitFor(async () => expect((await store.get("k"))?.body).toBe("two"));
+    expect(await read(await cachedFetch("k", POLICY, fetcher, store))).toMatchObject({ cache: "HIT", body: "two" });
+  });
+
+  it("fetches again once the entry is past stale-while-revalidate", async () => {
+    const store = createMemoryStore();
+    const fetcher = upstream("one", "two");
+    await cachedFetch("k", POLICY, fetcher, store);
+    seconds(150);
+
+    expect(await read(await cachedFetch("k", POLICY, fetcher, store))).toMatchObject({ cache: "MISS", body: "two" });
+  });
+
+  it("serves the old entry when upstream fails, within stale-if-error", async () => {
+    const store = createMemoryStore();
+    await cachedFetch("k", POLICY, upstream("one"), store);
+    seconds(150);
+
+    expect(await read(await cachedFetch("k", POLICY, upstream(503), store))).toEqual({
+      cache: "STALE-IF-ERROR",
+      status: 200,
+      body: "one",
+    });
+    const thrown = vi.fn(() => Promise.reject(new DOMException("Timed out", "TimeoutError")));
+    expect((await cachedFetch("k", POLICY, thrown, store)).headers.get("X-Cache")).toBe("STALE-IF-ERROR");
+
+    seconds(600);
+    const failed = await cachedFetch("k", POLICY, upstream(503), store);
+    expect(await read(failed)).toEqual({ cache: "MISS", status: 503, body: "error" });
+    expect(failed.headers.get("X-Served-By")).toBe("direct");
+    await expect(cachedFetch("k", POLICY, thrown, store)).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+
+  it("does not store failed responses", async () => {
+    const store = createMemoryStore();
+    const fetcher = upstream(403, "ok");
+
+    expect((await cachedFetch("k", POLICY, fetcher, store)).status).toBe(403);
+    expect(await read(await cachedFetch("k", POLICY, fetcher, store))).toMatchObject({ cache: "MISS", body: "ok" });
+  });
+
+  it("makes one upstream call for concurrent misses", async () => {
+    const store = createMemoryStore();
+    let release = () => {};
+    const fetcher = vi.fn(async () => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return new Response("shared");
+    });
+
+    const pending = [1, 2, 3].map(() => cachedFetch("k", POLICY, fetcher, store));
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+    release();
+    const responses = await Promise.all(pending.map(async (response) => read(await response)));
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(responses.map(({ body }) => body)).toEqual(["shared", "shared", "shared"]);
+  });
+
+  it("evicts the least recently used entry past NBA_CACHE_MAX_ENTRIES", async () => {
+    process.env.NBA_CACHE_MAX_ENTRIES = "2";
+    try {
+      vi.resetModules();
+      const { cachedFetch: fetchWithDefaultStore } = await import("@/lib/cache");
+      const fetcher = upstream("fresh");
+      const get = (key: string) => fetchWithDefaultStore(key, POLICY, fetcher);
+
+      await get("a");
+      await get("b");
+      await get("a"); // a is now the most recently used
+      await get("c");
+
+      expect((await get("a")).headers.get("X-Cache")).toBe("HIT");
+      expect((await get("b")).headers.get("X-Cache")).toBe("MISS");
+    } finally {
+      delete process.env.NBA_CACHE_MAX_ENTRIES;
+    }
+  });
+});
+
+describe("getCachePolicy", () => {
+  it("picks the TTL by endpoint", () => {
+    expect(getCachePolicy("https://stats.nba.com/stats/commonallplayers?LeagueID=00").ttl).toBe(24 * 60 * 60);
+    expect(getCachePolicy("https://stats.nba.com/stats/playercareerstats?PlayerID=1").ttl).toBe(12 * 60 * 60);
+    expect(getCachePolicy("https://stats.nba.com/stats/playerdashboardbygeneralsplits").ttl).toBe(60 * 60);
+    expect(getCachePolicy("https://stats.nba.com/stats/somethingnew")).toEqual({
+      ttl: 60 * 60,
+      staleWhileRevalidate: 24 * 60 * 60,
+      staleIfError: 7 * 24 * 60 * 60,
+    });
+  });
+});
+
+describe("createMemoryStore", () => {
+  it("evicts the least recently used entry", async () => {
+    const store = createMemoryStore(2);
+    await store.set("a", ENTRY);
+    await store.set("b", ENTRY);
+    await store.get("a");
+    await store.set("c", ENTRY);
+
+    expect(await store.get("a")).toBeDefined();
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBeDefined();
+  });
+});
+
+describe("createFileStore", () => {
+  let dir = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "nba-cache-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps entries across store instances, like a restart", async () => {
+    await createFileStore(dir).set("k", { ...ENTRY, body: "persisted" });
+
+    expect((await createFileStore(dir).get("k"))?.body).toBe("persisted");
+    expect(await createFileStore(dir).get("other")).toBeUndefined();
+    expect((await readdir(dir)).filter((file) => file.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("treats an unreadable file as a miss", async () => {
+    const store = createFileStore(dir);
+    await store.set("k", ENTRY);
+    const [file] = await readdir(dir);
+    await writeFile(path.join(dir, file), "{ not json");
+
+    expect(await store.get("k")).toBeUndefined();
+  });
+
+  it("is promoted to memory by the tiered store", async () => {
+    const memory = createMemoryStore();
+    await createFileStore(dir).set("k", ENTRY);
+
+    expect(await createTieredStore(memory, createFileStore(dir)).get("k")).toEqual(ENTRY);
+    expect(await memory.get("k")).toEqual(ENTRY);
+  });
+
+  it("backs the default store when NBA_CACHE_DIR is set", async () => {
+    process.env.NBA_CACHE_DIR = dir;
+    try {
+      vi.resetModules();
+      await (await import("@/lib/cache")).cachedFetch("k", POLICY, upstream("on disk"));
+      vi.resetModules();
+      const fetcher = upstream("refetched");
+      const response = await (await import("@/lib/cache")).cachedFetch("k", POLICY, fetcher);
+
+      expect(await read(response)).toMatchObject({ cache: "HIT", body: "on disk" });
+      expect(fetcher).not.toHaveBeenCalled();
+    } finally {
+      process.env.NBA_CACHE_DIR = "off";
+    }
+  });
+});
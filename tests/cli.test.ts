@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { setupMockNba } from "./helpers/mockNba";
+
+const mock = setupMockNba();
+
+async function cli(...argv: string[]) {
+  const { run } = await import("@/cli/run");
+  let stdout = "";
+  let stderr = "";
+  const code = await run(argv, { stdout: (text) => (stdout += text), stderr: (text) => (stderr += text) });
+  return { code, stdout, stderr };
+}
+
+describe("shots CLI", () => {
+  it("calculates for a player looked up by name", async () => {
+    const { code, stdout } = await cli("calc", "nikola", "jokic", "--season", "2024-25", "-t", "40");
+
+    expect(code).toBe(0);
+    expect(stdout).toBe(
+      [
+        "    ID  PLAYER        TEAM  SEASON    PTS   FGA  PTS/SHOT  SHOTS  ERROR",
+        "203999  Nikola Jokić  DEN   2024-25  29.6  19.5     1.518   26.4  -",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("prints JSON and CSV", async () => {
+    const json = await cli("search", "luka", "--format", "json");
+    const csv = await cli("calc", "203999", "--season", "2024-25", "-f", "csv");
+
+    expect(JSON.parse(json.stdout)).toEqual([expect.objectContaining({ id: 1629029, display_name: "Luka Dončić" })]);
+    expect(csv.stdout.split("\r\n")).toEqual([
+      "player_id,player_name,team,season,season_type,target,pts,fga,points_per_shot,shots,error",
+      "203999,Nikola Jokić,DEN,2024-25,Regular Season,30,29.6,19.5,1.518,19.8,",
+      "",
+    ]);
+  });
+
+  it("ranks the leaderboard with the app's filters", async () => {
+    const { code, stdout } = await cli("leaderboard", "--season", "2024-25", "--team", "den", "-n", "1", "-f", "json");
+    const rows = JSON.parse(stdout);
+
+    expect(code).toBe(0);
+    expect(rows).toEqual([expect.objectContaining({ team: "DEN", season: "2024-25" })]);
+    expect(mock.requestsTo("leaguedashplayerstats")[0].searchParams.get("TeamID")).toBe("1610612743");
+  });
+
+  it("lists every compared player and exits non-zero when one has no stats", async () => {
+    mock.override((endpoint, params) =>
+      endpoint === "playerdashboardbygeneralsplits" && params.get("PlayerID") === "1629029"
+        ? "playerdashboardbygeneralsplits-no-games"
+        : undefined,
+    );
+    const { code, stdout } = await cli("compare", "203999", "1629029", "--season", "2024-25", "-f", "json");
+
+    expect(code).toBe(3);
+    expect(JSON.parse(stdout).map((row: { player_id: number; error: string }) => [row.player_id, row.error])).toEqual([
+      [203999, ""],
+      [1629029, "Player has no games in the 2024-25 Regular Season."],
+    ]);
+  });
+
+  it.each([
+    [{ status: 403, body: "Forbidden" }, 4],
+    [{ body: { resultSets: [] } }, 6],
+  ])("exits with the upstream failure's code", async (response, expected) => {
+    mock.override((endpoint) => (endpoint === "playerdashboardbygeneralsplits" ? response : undefined));
+    const { code, stdout, stderr } = await cli("calc", "203999", "--season", "2024-25");
+
+    expect(code).toBe(expected);
+    expect(stdout).toBe("");
+    expect(stderr).toMatch(/^shots: /);
+  });
+
+  it("exits 5 on a timeout", async () => {
+    process.env.NBA_FETCH_TIMEOUT_MS = "100";
+    mock.override(() => ({ delayMs: 1000 }));
+
+    expect((await cli("calc", "203999", "--season", "2024-25")).code).toBe(5);
+  });
+
+  it.each([
+    [["calc", "203999", "--target", "0"], "Invalid target"],
+    [["calc", "203999", "--format", "xml"], "Invalid --format"],
+    [["leaderboard", "--position", "X"], "Invalid position"],
+    [["search", "luka", "--bogus"], "Unknown option"],
+    [["compare"], "compare needs a player name or ID"],
+    [[], "Usage: shots"],
+  ])("exits 2 on bad usage: %j", async (argv, message) => {
+    const { code, stderr } = await cli(...argv);
+
+    expect(code).toBe(2);
+    expect(stderr).toContain(message);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("exits 3 when no player matches", async () => {
+    const { code, stderr } = await cli("calc", "nobody at all");
+
+    expect(code).toBe(3);
+    expect(stderr).toBe('shots: No player matches "nobody at all"\n');
+  });
+});
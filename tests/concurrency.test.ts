@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps the input order", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    // Later items finish first, so results arrive out of order
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (item, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep((8 - item) * 3);
+      running--;
+      return `${item}@${index}`;
+    });
+
+    expect(maxRunning).toBe(3);
+    expect(results).toEqual(["1@0", "2@1", "3@2", "4@3", "5@4", "6@5", "7@6"]);
+  });
+
+  it("handles fewer items than the limit, no items and a limit below 1", async () => {
+    let maxRunning = 0;
+    let running = 0;
+    const track = async (item: number) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(1);
+      running--;
+      return item * 2;
+    };
+
+    expect(await mapWithConcurrency([1, 2], 5, track)).toEqual([2, 4]);
+    expect(await mapWithConcurrency([], 3, track)).toEqual([]);
+    maxRunning = 0;
+    expect(await mapWithConcurrency([1, 2, 3], 0, track)).toEqual([2, 4, 6]);
+    expect(maxRunning).toBe(1);
+  });
+
+  it("rejects when a call fails", async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (item) => {
+        if (item === 2) throw new Error("boom");
+        return item;
+      }),
+    ).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { buildPlayerDashboardUrl, parsePlayerDashboard } from "@/lib/dashboard";
+import { SchemaDriftError } from "@/lib/schema";
+import { loadFixture } from "@/mock/nba-server.mjs";
+
+type RecordedResultSet = { name: string; headers: string[]; rowSet: unknown[][] };
+
+const recorded = () => loadFixture("playerdashboardbygeneralsplits");
+
+describe("buildPlayerDashboardUrl", () => {
+  it("sends every parameter of the recorded request, with all-games defaults", () => {
+    const { parameters } = recorded();
+    const url = buildPlayerDashboardUrl(203999, { season: "2024-25" });
+
+    expect(url.origin + url.pathname).toBe("https://stats.nba.com/stats/playerdashboardbygeneralsplits");
+    for (const [name, value] of Object.entries(parameters)) {
+      // Playoff round is optional and never sent
+      if (name === "PORound") continue;
+      expect(url.searchParams.get(name), name).toBe(value === null ? "" : String(value));
+    }
+  });
+
+  it("maps filters to their query parameters", () => {
+    const { searchParams } = buildPlayerDashboardUrl(203999, {
+      season: "2023-24",
+      seasonType: "Playoffs",
+      perMode: "Totals",
+      location: "Road",
+      outcome: "W",
+      month: 3,
+      lastNGames: 10,
+      opponentTeamId: 1610612747,
+      dateFrom: "01/01/2024",
+      period: 4,
+    });
+
+    expect(Object.fromEntries(searchParams)).toMatchObject({
+      Season: "2023-24",
+      SeasonType: "Playoffs",
+      PerMode: "Totals",
+      Location: "Road",
+      Outcome: "W",
+      Month: "3",
+      LastNGames: "10",
+      OpponentTeamID: "1610612747",
+      DateFrom: "01/01/2024",
+      DateTo: "",
+      Period: "4",
+    });
+  });
+});
+
+describe("parsePlayerDashboard", () => {
+  it("parses every result set of a recorded response", () => {
+    const dashboard = parsePlayerDashboard(recorded());
+
+    expect(Object.keys(dashboard)).toEqual([
+      "OverallPlayerDashboard",
+      "LocationPlayerDashboard",
+      "WinsLossesPlayerDashboard",
+      "MonthPlayerDashboard",
+      "PrePostAllStarPlayerDashboard",
+      "StartingPosition",
+      "DaysRestPlayerDashboard",
+    ]);
+    expect(dashboard.OverallPlayerDashboard?.[0]).toMatchObject({ GROUP_VALUE: "2024-25", GP: 70, FGA: 19.5, PTS: 29.6 });
+    expect(dashboard.LocationPlayerDashboard?.map((row) => [row.GROUP_VALUE, row.PTS, row.FGA])).toEqual([
+      ["Home", 30.5, 19.6],
+      ["Road", 28.7, 19.4],
+    ]);
+    // Columns outside the schema are kept
+    expect(dashboard.OverallPlayerDashboard?.[0].PLUS_MINUS).toEqual(expect.any(Number));
+  });
+
+  it("looks columns up by header name, not position", () => {
+    const data = recorded();
+    const shuffled = structuredClone(data);
+    for (const resultSet of shuffled.resultSets as RecordedResultSet[]) {
+      resultSet.headers.reverse();
+      for (const row of resultSet.rowSet) row.reverse();
+    }
+
+    expect(parsePlayerDashboard(shuffled)).toEqual(parsePlayerDashboard(data));
+  });
+
+  it("skips result sets it doesn't know and keeps empty ones", () => {
+    const data = recorded();
+    const [overall, location] = data.resultSets as RecordedResultSet[];
+    data.resultSets = [{ ...overall, rowSet: [] }, { ...location, name: "SomethingNew" }];
+
+    expect(parsePlayerDashboard(data)).toEqual({ OverallPlayerDashboard: [] });
+  });
+
+  it("throws SchemaDriftError for a response without result sets", () => {
+    expect(() => parsePlayerDashboard({ resource: "playerdashboardbygeneralsplits" })).toThrow(SchemaDriftError);
+  });
+});
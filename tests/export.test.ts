@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { EXPORT_COLUMNS, toCsv, type ExportRow } from "@/lib/export";
+
+const ROW: ExportRow = {
+  player_id: 1,
+  player_name: "Player",
+  team: "DEN",
+  season: "2024-25",
+  season_type: "Regular Season",
+  target: 30,
+  pts: 20,
+  fga: 15,
+  points_per_shot: 1.333,
+  shots: 22.5,
+  error: "",
+};
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes or line breaks", () => {
+    const csv = toCsv([{ ...ROW, player_name: 'Dennis "The Worm" Rodman, Jr.', error: "line\nbreak" }], EXPORT_COLUMNS);
+
+    expect(csv.split("\r\n")[1]).toBe('1,"Dennis ""The Worm"" Rodman, Jr.",DEN,2024-25,Regular Season,30,20,15,1.333,22.5,"line\nbreak"');
+  });
+
+  it("leaves missing numbers empty", () => {
+    const csv = toCsv([{ ...ROW, pts: null, fga: null, points_per_shot: null, shots: null, error: "No games" }], EXPORT_COLUMNS);
+
+    expect(csv.split("\r\n")[1]).toBe("1,Player,DEN,2024-25,Regular Season,30,,,,,No games");
+  });
+});
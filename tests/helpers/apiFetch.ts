@@ -0,0 +1,34 @@
+/**
+ * A fetch for component tests: /api/* requests are answered by the real route handlers
+ * (which in turn talk to the mock NBA server); everything else goes to the original fetch.
+ */
+
+type Handler = (request: Request, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+const ROUTES: Array<[RegExp, () => Promise<{ GET: Handler }>]> = [
+  [/^\/api\/players\/search$/, () => import("@/app/api/players/search/route")],
+  [/^\/api\/players\/stats$/, () => import("@/app/api/players/stats/route")],
+  [/^\/api\/players\/([^/]+)\/stats$/, () => import("@/app/api/players/[id]/stats/route")],
+  [/^\/api\/players\/([^/]+)\/calculate$/, () => import("@/app/api/players/[id]/calculate/route")],
+  [/^\/api\/players\/([^/]+)\/splits$/, () => import("@/app/api/players/[id]/splits/route")],
+  [/^\/api\/players\/([^/]+)\/gamelog$/, () => import("@/app/api/players/[id]/gamelog/route")],
+  [/^\/api\/players\/([^/]+)\/career$/, () => import("@/app/api/players/[id]/career/route")],
+  [/^\/api\/players\/([^/]+)\/matchup$/, () => import("@/app/api/players/[id]/matchup/route")],
+  [/^\/api\/teams\/([^/]+)$/, () => import("@/app/api/teams/[id]/route")],
+  [/^\/api\/leaderboard$/, () => import("@/app/api/leaderboard/route")],
+  [/^\/api\/v1\/export$/, () => import("@/app/api/v1/export/route")],
+];
+
+export function createApiFetch(fallback: typeof fetch): typeof fetch {
+  return async (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), "http://localhost");
+    for (const [pattern, load] of ROUTES) {
+      const match = url.pathname.match(pattern);
+      if (match) {
+        const { GET } = await load();
+        return GET(new Request(url, init), { params: Promise.resolve({ id: match[1] }) });
+      }
+    }
+    return fallback(input, init);
+  };
+}
@@ -0,0 +1,26 @@
+import { afterAll, beforeAll, beforeEach, vi } from "vitest";
+import { createMockNbaServer } from "@/mock/nba-server.mjs";
+
+/**
+ * Start the mock NBA server for this test file and point NBA_STATS_PROXY_URL at it.
+ * Modules are reset before each test so the player index, cache and circuit breakers start empty;
+ * import lib/nba and the routes dynamically inside tests.
+ */
+export function setupMockNba() {
+  const mock = createMockNbaServer();
+
+  beforeAll(async () => {
+    process.env.NBA_STATS_PROXY_URL = await mock.listen();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    vi.resetModules();
+  });
+
+  return mock;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { buildLeaderboard, MAX_PER_PAGE, parseLeaderboardQuery, type LeaderboardFilters } from "@/lib/leaderboard";
+import type { LeaguePlayerStats } from "@/lib/nba";
+
+const DEN = 1610612743;
+
+function row(player_id: number, pts: number, fga: number, gp = 70, min = 30): LeaguePlayerStats {
+  return { player_id, player_name: `Player ${player_id}`, team_id: DEN, team_abbreviation: "DEN", gp, min, pts, fga };
+}
+
+// Shots to 30: 1 → 15, 2 → 20, 3 → 30, 4 → 25 (ties with 5 on shots, more points first)
+const ROWS = [row(1, 30, 15), row(2, 15, 10), row(3, 10, 10, 20, 12), row(4, 24, 20), row(5, 12, 10), row(6, 0, 0)];
+
+const FILTERS: LeaderboardFilters = {
+  target: 30,
+  minGames: 0,
+  minMinutes: 0,
+  sort: "shots",
+  order: "asc",
+  page: 1,
+  perPage: 25,
+};
+
+const ids = (filters: Partial<LeaderboardFilters>) =>
+  buildLeaderboard(ROWS, { ...FILTERS, ...filters }).entries.map((entry) => entry.player_id);
+
+describe("buildLeaderboard", () => {
+  it("ranks by fewest shots, breaking ties by points, and drops players without attempts", () => {
+    const { entries, totalCount } = buildLeaderboard(ROWS, FILTERS);
+
+    expect(entries.map(({ player_id, rank, shots }) => [player_id, rank, shots])).toEqual([
+      [1, 1, 15],
+      [2, 2, 20],
+      [4, 3, 25],
+      [5, 4, 25],
+      [3, 5, 30],
+    ]);
+    expect(entries[0].pointsPerShot).toBe(2);
+    expect(totalCount).toBe(5);
+  });
+
+  it("sorts by any column in either direction, keeping the shots rank", () => {
+    expect(ids({ order: "desc" })).toEqual([3, 5, 4, 2, 1]);
+    expect(ids({ sort: "pts", order: "desc" })).toEqual([1, 4, 2, 5, 3]);
+    expect(ids({ sort: "fga", order: "asc" })).toEqual([2, 5, 3, 1, 4]);
+    // Equal games: ordered by the shots rank
+    expect(ids({ sort: "gp", order: "desc" })).toEqual([1, 2, 4, 5, 3]);
+  });
+
+  it("filters by games and minutes", () => {
+    expect(ids({ minGames: 21 })).toEqual([1, 2, 4, 5]);
+    expect(ids({ minMinutes: 12 })).toEqual([1, 2, 4, 5, 3]);
+    expect(ids({ minMinutes: 12.5 })).toEqual([1, 2, 4, 5]);
+  });
+
+  it("paginates after sorting", () => {
+    const { entries, totalCount, totalPages } = buildLeaderboard(ROWS, { ...FILTERS, page: 2, perPage: 2 });
+
+    expect(entries.map(({ player_id }) => player_id)).toEqual([4, 5]);
+    expect(totalCount).toBe(5);
+    expect(totalPages).toBe(3);
+    expect(ids({ page: 4, perPage: 2 })).toEqual([]);
+  });
+});
+
+describe("parseLeaderboardQuery", () => {
+  const parse = (query: string) => parseLeaderboardQuery(new URLSearchParams(query));
+
+  it("defaults to everyone, fewest shots first", () => {
+    expect(parse("")).toMatchObject({
+      filters: FILTERS,
+      options: { teamId: 0, position: undefined },
+    });
+    expect(parse("sort=pts").filters?.order).toBe("desc");
+  });
+
+  it("reads every filter", () => {
+    const { filters, options } = parse(
+      `season=2024-25&target=40&minGames=10&minMinutes=20.5&team=${DEN}&position=g&sort=min&order=asc&page=3&per_page=500`,
+    );
+
+    expect(filters).toEqual({
+      target: 40,
+      minGames: 10,
+      minMinutes: 20.5,
+      sort: "min",
+      order: "asc",
+      page: 3,
+      perPage: MAX_PER_PAGE,
+    });
+    expect(options).toMatchObject({ season: "2024-25", teamId: DEN, position: "G" });
+  });
+
+  it.each([
+    ["season=2024", "Invalid season"],
+    ["target=0", "Invalid target"],
+    ["minGames=-1", "Invalid minGames or minMinutes (expected a non-negative number)"],
+    ["team=42", "Invalid team (expected a team ID)"],
+    ["team=LAL", "Invalid team (expected a team ID)"],
+    ["position=PG", "Invalid position (expected G, F or C)"],
+    ["sort=name", "Invalid sort"],
+    ["order=up", "Invalid order (expected asc or desc)"],
+    ["page=0", "Invalid page or per_page"],
+    ["per_page=1.5", "Invalid page or per_page"],
+  ])("rejects %s", (query, error) => {
+    expect(parse(query).error).toContain(error);
+  });
+});
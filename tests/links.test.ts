@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { calculatorPath, parseCalculatorUrl, playerImagePath, shareSummary } from "@/lib/links";
+
+const JOKIC = { pts: 29.6, fga: 19.5, fgm: 11.2, fg3m: 2, fg3a: 4.7, ftm: 5.2, fta: 6.4 };
+
+describe("calculatorPath", () => {
+  it("leaves defaults out of the link", () => {
+    expect(calculatorPath({ playerId: 203999, target: 30, seasonType: "Regular Season", mode: "naive", opponent: 0 })).toBe(
+      "/player/203999",
+    );
+    expect(calculatorPath({})).toBe("/");
+  });
+
+  it("round-trips through parseCalculatorUrl", () => {
+    const link = { playerId: 203999, target: 40, season: "2024-25", seasonType: "Playoffs", mode: "true-shooting", opponent: 1610612747 } as const;
+    const path = calculatorPath(link);
+
+    expect(path).toBe("/player/203999?target=40&season=2024-25&seasonType=Playoffs&mode=true-shooting&opponent=1610612747");
+    expect(parseCalculatorUrl(new URL(path, "http://localhost"))).toEqual(link);
+    expect(playerImagePath(link)).toBe(path.replace("/player/203999", "/player/203999/og"));
+  });
+});
+
+describe("parseCalculatorUrl", () => {
+  it("reads the older /?player= links and drops invalid values", () => {
+    expect(parseCalculatorUrl(new URL("http://localhost/?player=203999&target=0&season=2024&opponent=42"))).toEqual({
+      playerId: 203999,
+      target: undefined,
+      season: undefined,
+      seasonType: undefined,
+      mode: undefined,
+      opponent: undefined,
+    });
+    expect(parseCalculatorUrl(new URL("http://localhost/")).playerId).toBeUndefined();
+  });
+});
+
+describe("shareSummary", () => {
+  it("describes the result for the link's mode", () => {
+    expect(shareSummary(JOKIC, 30)).toEqual({ shots: "19.8", caption: "shots to score 30" });
+    expect(shareSummary(JOKIC, 30, "true-shooting")).toEqual({
+      shots: "19.8",
+      caption: "shots + 2.9 free-throw trips to score 30",
+    });
+    expect(shareSummary({ ...JOKIC, fga: 0 })).toBeNull();
+  });
+});
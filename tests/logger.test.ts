@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLogger, createRequestId, withRequestId } from "@/lib/logger";
+
+function captureOutput() {
+  const lines: string[] = [];
+  vi.spyOn(console, "log").mockImplementation((line) => lines.push(line));
+  vi.spyOn(console, "error").mockImplementation((line) => lines.push(line));
+  return () => lines.map((line) => JSON.parse(line));
+}
+
+afterEach(() => {
+  process.env.LOG_LEVEL = "silent";
+  vi.restoreAllMocks();
+});
+
+describe("createLogger", () => {
+  it("writes one JSON object per line with the scope and fields", () => {
+    process.env.LOG_LEVEL = "info";
+    const output = captureOutput();
+
+    createLogger("nba").info("Indexed players", { count: 3, error: new TypeError("boom") });
+
+    expect(output()).toEqual([
+      {
+        ts: expect.any(String),
+        level: "info",
+        scope: "nba",
+        msg: "Indexed players",
+        count: 3,
+        error: { name: "TypeError", message: "boom" },
+      },
+    ]);
+  });
+
+  it("drops lines below LOG_LEVEL", () => {
+    process.env.LOG_LEVEL = "warn";
+    const output = captureOutput();
+    const log = createLogger("nba");
+
+    log.debug("payload");
+    log.info("progress");
+    log.warn("retrying");
+    log.error("failed");
+
+    expect(output().map((line) => line.level)).toEqual(["warn", "error"]);
+    expect(log.isEnabled("debug")).toBe(false);
+  });
+
+  it("falls back to info for an unknown LOG_LEVEL", () => {
+    process.env.LOG_LEVEL = "verbose";
+    const log = createLogger("nba");
+
+    expect(log.isEnabled("info")).toBe(true);
+    expect(log.isEnabled("debug")).toBe(false);
+  });
+
+  it("tags lines with the current request ID", async () => {
+    process.env.LOG_LEVEL = "info";
+    const output = captureOutput();
+    const log = createLogger("nba");
+
+    await withRequestId("req-1", async () => {
+      await Promise.resolve();
+      log.info("inside");
+    });
+    log.info("outside");
+
+    expect(output().map((line) => line.request_id)).toEqual(["req-1", undefined]);
+  });
+});
+
+describe("createRequestId", () => {
+  it("keeps a sane incoming X-Request-Id and replaces anything else", () => {
+    const request = (id: string) => new Request("http://localhost/", { headers: { "X-Request-Id": id } });
+
+    expect(createRequestId(request("abc-123"))).toBe("abc-123");
+    expect(createRequestId(request("<script>"))).not.toBe("<script>");
+    expect(createRequestId()).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
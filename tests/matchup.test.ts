@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { MATCHUP_PRIOR_GAMES, projectMatchup } from "@/lib/matchup";
+
+const baseline = { pts: 30, fga: 20 }; // 1.5 points per shot, 20 shots to 30
+
+describe("projectMatchup", () => {
+  it("scales the season rate by the opponent's FG% allowed when they haven't met", () => {
+    const projection = projectMatchup(
+      { baseline, split: { gp: 0, pts: 0, fga: 0 }, defense: { opp_fg_pct: 0.44, league_opp_fg_pct: 0.44 * 1.1 } },
+      30,
+    );
+
+    expect(projection).toMatchObject({ splitWeight: 0, splitPointsPerShot: null, smallSample: true });
+    expect(projection?.baseline.shots).toBe(20);
+    // A defense allowing 10% less than average costs 10% of the rate
+    expect(projection?.pointsPerShot).toBeCloseTo(1.5 / 1.1, 3);
+    expect(projection?.shots).toBe(22);
+  });
+
+  it("gives the head-to-head split more weight as games accumulate", () => {
+    const split = { gp: MATCHUP_PRIOR_GAMES, pts: 40, fga: 20 }; // 2 points per shot
+    const projection = projectMatchup({ baseline, split, defense: null }, 30);
+
+    expect(projection).toMatchObject({ defenseFactor: 1, splitWeight: 0.5, splitPointsPerShot: 2, smallSample: false });
+    expect(projection?.pointsPerShot).toBe(1.75);
+  });
+
+  it("returns null without a season baseline", () => {
+    expect(projectMatchup({ baseline: { pts: 0, fga: 0 }, split: { gp: 2, pts: 20, fga: 10 }, defense: null }, 30)).toBeNull();
+  });
+});
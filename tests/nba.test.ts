@@ -0,0 +1,296 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCurrentSeason, getPreviousSeason } from "@/lib/seasons";
+import { createMockNbaServer, loadFixture } from "@/mock/nba-server.mjs";
+import { setupMockNba } from "./helpers/mockNba";
+
+const JOKIC = 203999;
+
+const mock = setupMockNba();
+
+describe("searchPlayers", () => {
+  it("finds a player by name, ignoring accents", async () => {
+    const { searchPlayers } = await import("@/lib/nba");
+    const { data, error } = await searchPlayers("jokic");
+
+    expect(error).toBeUndefined();
+    expect(data?.total).toBe(1);
+    expect(data?.players[0]).toMatchObject({
+      id: JOKIC,
+      display_name: "Nikola Jokić",
+      team_abbreviation: "DEN",
+      active: true,
+    });
+  });
+
+  it("matches nicknames and initials", async () => {
+    const { searchPlayers } = await import("@/lib/nba");
+
+    expect((await searchPlayers("joker")).data?.players[0].id).toBe(JOKIC);
+    expect((await searchPlayers("sga")).data?.players[0].display_name).toBe("Shai Gilgeous-Alexander");
+  });
+
+  it("filters by active status", async () => {
+    const { searchPlayers } = await import("@/lib/nba");
+
+    expect((await searchPlayers("kobe")).data?.total).toBe(0);
+    expect((await searchPlayers("kobe", { active: "retired" })).data?.players[0].id).toBe(977);
+    expect((await searchPlayers("kobe", { active: "all" })).data?.total).toBe(1);
+  });
+
+  it("paginates and loads the player list once", async () => {
+    const { searchPlayers } = await import("@/lib/nba");
+    const first = await searchPlayers("a", { active: "all", perPage: 2 });
+    const second = await searchPlayers("a", { active: "all", page: 2, perPage: 2 });
+
+    expect(first.data?.players).toHaveLength(2);
+    expect(second.data?.players).toHaveLength(2);
+    expect(first.data?.total).toBe(second.data?.total);
+    expect(second.data?.players[0].id).not.toBe(first.data?.players[0].id);
+    expect(mock.requestsTo("commonallplayers")).toHaveLength(1);
+  });
+
+  it("reports a blocked upstream instead of an empty list", async () => {
+    mock.override((endpoint) => (endpoint === "commonallplayers" ? { status: 403, body: "Forbidden" } : undefined));
+    const { searchPlayers } = await import("@/lib/nba");
+    const { error } = await searchPlayers("jokic");
+
+    expect(error).toMatchObject({ kind: "UpstreamBlocked", status: 403 });
+  });
+
+  it("reports schema drift", async () => {
+    mock.override((endpoint) =>
+      endpoint === "commonallplayers"
+        ? { body: { resultSets: [{ name: "CommonAllPlayers", headers: ["PERSON_ID"], rowSet: [[1]] }] } }
+        : undefined,
+    );
+    const { searchPlayers } = await import("@/lib/nba");
+    const { error } = await searchPlayers("jokic");
+
+    expect(error).toMatchObject({ kind: "SchemaChanged", endpoint: "commonallplayers" });
+  });
+});
+
+describe("fetchPlayerSeasonAverages", () => {
+  it("returns per-game stats and the player's name for a season", async () => {
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const { data, error } = await fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" });
+
+    expect(error).toBeUndefined();
+    expect(data).toMatchObject({
+      pts: 29.6,
+      fga: 19.5,
+      fta: 6.4,
+      season: "2024-25",
+      season_type: "Regular Season",
+      requested_season: "2024-25",
+      player: { id: JOKIC, first_name: "Nikola", last_name: "Jokić", team_abbreviation: "DEN" },
+    });
+    expect(data?.ts_pct).toBeCloseTo(29.6 / (2 * (19.5 + 0.44 * 6.4)), 3);
+  });
+
+  it("falls back to the previous season when the current one has no games", async () => {
+    mock.override((endpoint, params) =>
+      endpoint === "playerdashboardbygeneralsplits" && params.get("Season") === getCurrentSeason()
+        ? "playerdashboardbygeneralsplits-no-games"
+        : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const { data } = await fetchPlayerSeasonAverages(JOKIC);
+
+    expect(data?.season).toBe(getPreviousSeason());
+    expect(data?.requested_season).toBe(getCurrentSeason());
+    expect(mock.requestsTo("playerdashboardbygeneralsplits").map((url) => url.searchParams.get("Season"))).toEqual([
+      getCurrentSeason(),
+      getPreviousSeason(),
+    ]);
+  });
+
+  it("does not fall back when a season was asked for", async () => {
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" ? "playerdashboardbygeneralsplits-no-games" : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const { error } = await fetchPlayerSeasonAverages(JOKIC, { season: "2019-20", seasonType: "Playoffs" });
+
+    expect(error).toMatchObject({ kind: "NoSeasonData", season: "2019-20", season_type: "Playoffs" });
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(1);
+  });
+
+  it("rejects an invalid player ID without calling NBA", async () => {
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+
+    expect((await fetchPlayerSeasonAverages(-1)).error?.kind).toBe("InvalidInput");
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("reports a timeout", async () => {
+    process.env.NBA_FETCH_TIMEOUT_MS = "100";
+    mock.override((endpoint) => (endpoint === "playerdashboardbygeneralsplits" ? { delayMs: 1000 } : undefined));
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+
+    expect((await fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" })).error?.kind).toBe("UpstreamTimeout");
+  });
+});
+
+describe("upstream resilience", () => {
+  // A second proxy in front of the mock that refuses every request
+  const blocked = createMockNbaServer();
+  let mockUrl = "";
+  let blockedUrl = "";
+  // Captured before the timers are faked: the mock server answers in real time
+  const realSetTimeout = setTimeout;
+
+  beforeAll(async () => {
+    mockUrl = process.env.NBA_STATS_PROXY_URL ?? "";
+    blockedUrl = await blocked.listen();
+  });
+
+  afterAll(async () => {
+    await blocked.close();
+  });
+
+  beforeEach(() => {
+    blocked.reset();
+    blocked.override(() => ({ status: 403, body: "Forbidden" }));
+    process.env.NBA_FETCH_RETRIES = "2";
+    process.env.NBA_FETCH_TIMEOUT_MS = "1000";
+    vi.spyOn(Math, "random").mockReturnValue(1); // Backoff waits its full 300ms * 2^attempt
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    process.env.NBA_STATS_PROXY_URL = mockUrl;
+    process.env.NBA_FETCH_RETRIES = "0";
+    delete process.env.NBA_FETCH_DEADLINE_MS;
+  });
+
+  /** Advance fake time in small steps, letting the real mock server answer in between */
+  async function advance(ms: number) {
+    for (let elapsed = 0; elapsed < ms; elapsed += 25) {
+      await new Promise((resolve) => realSetTimeout(resolve, 2));
+      await vi.advanceTimersByTimeAsync(Math.min(25, ms - elapsed));
+    }
+  }
+
+  /** Advance fake time until `promise` settles */
+  async function settle<T>(promise: Promise<T>): Promise<T> {
+    let settled = false;
+    promise.then(
+      () => (settled = true),
+      () => (settled = true),
+    );
+    for (let elapsed = 0; !settled && elapsed < 60_000; elapsed += 25) {
+      await advance(25);
+    }
+    return promise;
+  }
+
+  it("retries a 5xx after backing off", async () => {
+    let failures = 1;
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" && failures-- > 0 ? { status: 503, body: "Unavailable" } : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const result = fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" });
+
+    await advance(250);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(1);
+    expect((await settle(result)).data?.pts).toBe(29.6);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(2);
+  });
+
+  it("waits as long as Retry-After asks", async () => {
+    let failures = 1;
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" && failures-- > 0
+        ? { status: 429, body: "Slow down", headers: { "Retry-After": "2" } }
+        : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const result = fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" });
+
+    await advance(1900);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(1);
+    expect((await settle(result)).error).toBeUndefined();
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(2);
+  });
+
+  it("times out a stalled attempt and retries it", async () => {
+    let stalls = 1;
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" && stalls-- > 0 ? { delayMs: 30_000 } : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const started = Date.now();
+
+    expect((await settle(fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" }))).data?.pts).toBe(29.6);
+    expect(Date.now() - started).toBeLessThan(2000);
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(2);
+  });
+
+  it("fails over past a blocked proxy, and skips it once its circuit opens", async () => {
+    process.env.NBA_STATS_PROXY_URL = `${blockedUrl},${mockUrl}`;
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const lookup = (season: string) => settle(fetchPlayerSeasonAverages(JOKIC, { season }));
+
+    // Different seasons so the dashboard misses the response cache. The first lookup fails over
+    // for the dashboard and the player's name, the second for the dashboard: three failures.
+    expect((await lookup("2024-25")).data?.player.last_name).toBe("Jokić");
+    expect((await lookup("2023-24")).data?.pts).toBe(29.6);
+    expect(blocked.requests).toHaveLength(3);
+
+    expect((await lookup("2022-23")).data?.pts).toBe(29.6);
+    expect(blocked.requests).toHaveLength(3);
+
+    // After the cool-down one request is let through again
+    vi.setSystemTime(Date.now() + 61_000);
+    await lookup("2021-22");
+    expect(blocked.requests).toHaveLength(4);
+  });
+
+  it("returns the last blocked response when every path fails", async () => {
+    process.env.NBA_STATS_PROXY_URL = blockedUrl;
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+
+    expect((await settle(fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" }))).error).toMatchObject({
+      kind: "UpstreamBlocked",
+      status: 403,
+    });
+    expect(blocked.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(1); // 403 is not retried
+  });
+
+  it("stops retrying at the deadline", async () => {
+    process.env.NBA_FETCH_RETRIES = "5";
+    process.env.NBA_FETCH_DEADLINE_MS = "2500";
+    mock.override((endpoint) => (endpoint === "playerdashboardbygeneralsplits" ? { delayMs: 30_000 } : undefined));
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const started = Date.now();
+
+    expect((await settle(fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" }))).error?.kind).toBe("UpstreamTimeout");
+    expect(Date.now() - started).toBeLessThan(2600);
+    // Timeout at 1000ms, 300ms backoff, timeout at 2300ms; the next 600ms backoff would pass the deadline
+    expect(mock.requestsTo("playerdashboardbygeneralsplits")).toHaveLength(2);
+  });
+
+  it("shares one deadline across a route's requests", async () => {
+    process.env.NBA_FETCH_RETRIES = "0";
+    process.env.NBA_FETCH_DEADLINE_MS = "1500";
+    mock.override((endpoint) =>
+      endpoint === "playerdashboardbygeneralsplits" || endpoint === "commonplayerinfo"
+        ? { delayMs: 800, body: loadFixture(endpoint) }
+        : undefined,
+    );
+    const { fetchPlayerSeasonAverages } = await import("@/lib/nba");
+    const { withUpstreamTrace } = await import("@/lib/upstream");
+
+    // Each request fits its own timeout, but not both in the route's deadline
+    const { result } = await settle(
+      withUpstreamTrace(new Request("http://localhost/api"), () => fetchPlayerSeasonAverages(JOKIC, { season: "2024-25" })),
+    );
+    expect(result.error?.kind).toBe("UpstreamTimeout");
+
+    expect((await settle(fetchPlayerSeasonAverages(JOKIC, { season: "2023-24" }))).data?.pts).toBe(29.6);
+  });
+});
@@ -0,0 +1,65 @@
+import type { ReactElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it, vi } from "vitest";
+import { setupMockNba } from "./helpers/mockNba";
+
+const mock = setupMockNba();
+
+function pageProps(id: string, query: Record<string, string> = {}) {
+  return { params: Promise.resolve({ id }), searchParams: Promise.resolve(query) };
+}
+
+describe("/player/[id]", () => {
+  it("describes the result for link previews", async () => {
+    const { generateMetadata } = await import("@/app/player/[id]/page");
+    const metadata = await generateMetadata(pageProps("203999", { season: "2024-25", target: "40" }));
+
+    expect(metadata.title).toBe("Nikola Jokić needs 26.4 shots to score 40");
+    expect(metadata.description).toBe("Based on 29.6 PPG on 19.5 FGA in the 2024-25 Regular Season");
+    expect(metadata.openGraph?.images).toEqual([
+      expect.objectContaining({ url: "/player/203999/og?target=40&season=2024-25", width: 1200, height: 630 }),
+    ]);
+    expect(metadata.twitter).toMatchObject({ card: "summary_large_image" });
+  });
+
+  it("has no preview for an invalid player ID", async () => {
+    const { generateMetadata } = await import("@/app/player/[id]/page");
+
+    expect(await generateMetadata(pageProps("abc"))).toEqual({});
+  });
+
+  it("renders the Open Graph image", async () => {
+    const { GET } = await import("@/app/player/[id]/og/route");
+    const response = await GET(new Request("http://localhost/player/203999/og?season=2024-25"), {
+      params: Promise.resolve({ id: "203999" }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect((await response.arrayBuffer()).byteLength).toBeGreaterThan(0);
+  });
+
+  it("keeps the link's target on the fallback image", async () => {
+    // The PNG can't be read back, so capture the element it is drawn from
+    const rendered: string[] = [];
+    vi.doMock("next/og", () => ({
+      ImageResponse: class extends Response {
+        constructor(element: ReactElement) {
+          super(null);
+          rendered.push(renderToStaticMarkup(element));
+        }
+      },
+    }));
+    mock.override(() => ({ status: 403, body: "Forbidden" }));
+    try {
+      const { GET } = await import("@/app/player/[id]/og/route");
+      await GET(new Request("http://localhost/player/203999/og?target=45"), { params: Promise.resolve({ id: "203999" }) });
+    } finally {
+      vi.doUnmock("next/og");
+    }
+
+    expect(rendered[0]).toContain("How Many Shots to Score 45");
+    expect(rendered[0]).toContain("How many shots an NBA player needs to score 45");
+    expect(rendered[0]).not.toContain("30");
+  });
+});
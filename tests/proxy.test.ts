@@ -0,0 +1,141 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+
+/**
+ * proxy/server.js run as a child process in front of proxy/stub-upstream.js, as it would be deployed
+ */
+
+type Running = { url: string; output: string[]; child: ChildProcess };
+
+const started: ChildProcess[] = [];
+
+/** Run a proxy/ script; resolves with its URL once it logs the port it listens on */
+function start(script: string, env: Record<string, string>): Promise<Running> {
+  const child = spawn(process.execPath, [path.join("proxy", script)], {
+    env: { ...process.env, PORT: "0", ...env },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+  started.push(child);
+  const output: string[] = [];
+  return new Promise((resolve, reject) => {
+    child.stdout.on("data", (chunk: Buffer) => {
+      output.push(...chunk.toString().split("\n").filter(Boolean));
+      const port = output.join("\n").match(/listening on port (\d+)/)?.[1];
+      if (port) resolve({ url: `http://127.0.0.1:${port}`, output, child });
+    });
+    child.on("exit", (code) => reject(new Error(`${script} exited with ${code}`)));
+  });
+}
+
+let stub: Running;
+
+beforeAll(async () => {
+  stub = await start("stub-upstream.js", { STUB_DELAY_MS: "200" });
+  return () => {
+    stub.child.kill();
+  };
+});
+
+afterEach(() => {
+  for (const child of started.splice(0)) {
+    if (child !== stub.child) child.kill();
+  }
+});
+
+function startProxy(env: Record<string, string> = {}) {
+  return start("server.js", { NBA_UPSTREAM_ORIGIN: stub.url, ...env });
+}
+
+const nbaUrl = (endpoint: string) => `?url=${encodeURIComponent(`https://stats.nba.com/stats/${endpoint}`)}`;
+
+function stubRequestsTo(endpoint: string): number {
+  return stub.output.filter((line) => line.includes(`/stats/${endpoint}`)).length;
+}
+
+describe("proxy/server.js", () => {
+  it("requires the shared secret except for /healthz", async () => {
+    const proxy = await startProxy({ PROXY_SECRET: "s3cret" });
+    const get = (secret?: string) =>
+      fetch(proxy.url + nbaUrl("commonallplayers"), { headers: secret ? { "X-Proxy-Secret": secret } : {} });
+
+    expect((await get()).status).toBe(401);
+    expect((await get("s3cret-but-longer")).status).toBe(401);
+    expect((await get("s3cret")).status).toBe(200);
+    expect((await fetch(`${proxy.url}/healthz`)).status).toBe(200);
+  });
+
+  it("counts requests with a wrong secret against the rate limit", async () => {
+    const proxy = await startProxy({ PROXY_SECRET: "s3cret", RATE_LIMIT_PER_MINUTE: "2" });
+    const get = (secret: string) => fetch(proxy.url + nbaUrl("commonallplayers"), { headers: { "X-Proxy-Secret": secret } });
+
+    expect((await get("guess-1")).status).toBe(401);
+    expect((await get("guess-2")).status).toBe(401);
+    expect((await get("guess-3")).status).toBe(429);
+    expect((await get("s3cret")).status).toBe(429);
+  });
+
+  it("rate limits by connection address, ignoring a client's X-Forwarded-For", async () => {
+    const proxy = await startProxy({ RATE_LIMIT_PER_MINUTE: "2" });
+    const get = (forwardedFor: string) =>
+      fetch(proxy.url + nbaUrl("commonallplayers"), { headers: { "X-Forwarded-For": forwardedFor } });
+
+    expect((await get("10.0.0.1")).status).toBe(200);
+    expect((await get("10.0.0.2")).status).toBe(200);
+    const limited = await get("10.0.0.3");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("takes the client IP from the hops TRUST_PROXY_HOPS appended", async () => {
+    const proxy = await startProxy({ RATE_LIMIT_PER_MINUTE: "1", TRUST_PROXY_HOPS: "1" });
+    const get = (forwardedFor: string) =>
+      fetch(proxy.url + nbaUrl("commonallplayers"), { headers: { "X-Forwarded-For": forwardedFor } });
+
+    expect((await get("spoofed-1, 203.0.113.7")).status).toBe(200);
+    expect((await get("spoofed-2, 203.0.113.7")).status).toBe(429);
+    expect((await get("203.0.113.8")).status).toBe(200);
+  });
+
+  it("caches successful responses and merges identical in-flight requests", async () => {
+    const proxy = await startProxy();
+    const get = () => fetch(proxy.url + nbaUrl("leaguedashplayerstats?Season=2024-25"));
+
+    const [first, second] = await Promise.all([get(), get()]);
+    const third = await get();
+
+    expect([first, second].map((response) => response.headers.get("X-Proxy-Cache")).sort()).toEqual(["MERGED", "MISS"]);
+    expect(third.headers.get("X-Proxy-Cache")).toBe("HIT");
+    const bodies = await Promise.all([first, second, third].map((response) => response.json()));
+    expect(new Set(bodies.map((body) => body.stubRequest)).size).toBe(1);
+  });
+
+  it("does not cache error responses", async () => {
+    const proxy = await startProxy();
+    const get = () => fetch(proxy.url + nbaUrl("status/403"));
+
+    expect((await get()).headers.get("X-Proxy-Cache")).toBe("MISS");
+    expect((await get()).headers.get("X-Proxy-Cache")).toBe("MISS");
+  });
+
+  it("reports upstream health, sharing one check between concurrent requests", async () => {
+    const proxy = await startProxy();
+    const before = stubRequestsTo("commonteamyears");
+
+    const responses = await Promise.all([1, 2, 3].map(() => fetch(`${proxy.url}/healthz`)));
+    const bodies = await Promise.all(responses.map((response) => response.json()));
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(bodies[0]).toMatchObject({ status: "ok", upstream: { reachable: true, status: 200 } });
+    expect(new Set(bodies.map((body) => body.upstream.checkedAt)).size).toBe(1);
+    expect(stubRequestsTo("commonteamyears") - before).toBe(1);
+  });
+
+  it("reports degraded health when the upstream is unreachable", async () => {
+    const proxy = await start("server.js", { NBA_UPSTREAM_ORIGIN: "http://127.0.0.1:1" });
+    const response = await fetch(`${proxy.url}/healthz`);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ status: "degraded", upstream: { reachable: false } });
+  });
+});
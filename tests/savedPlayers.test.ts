@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  addRecent,
+  EMPTY_SAVED_PLAYERS,
+  loadSavedPlayers,
+  MAX_FAVORITES,
+  MAX_RECENTS,
+  mergeSavedPlayers,
+  parseSavedPlayers,
+  SAVED_PLAYERS_STORAGE_KEY,
+  serializeSavedPlayers,
+  storeSavedPlayers,
+  toggleFavorite,
+} from "@/lib/savedPlayers";
+
+const player = (id: number) => ({ id, first_name: "Player", last_name: String(id) });
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+describe("addRecent", () => {
+  it("moves the player to the front without duplicates, keeping only the latest few", () => {
+    let saved = EMPTY_SAVED_PLAYERS;
+    for (let id = 1; id <= MAX_RECENTS + 2; id++) saved = addRecent(saved, player(id));
+    saved = addRecent(saved, { ...player(5), display_name: "Player 5", team_id: 1 } as ReturnType<typeof player>);
+
+    expect(saved.recents.map(({ id }) => id)).toEqual([5, 10, 9, 8, 7, 6, 4, 3]);
+    expect(saved.recents[0]).toEqual(player(5));
+  });
+});
+
+describe("toggleFavorite", () => {
+  it("adds and removes, and stops at the limit", () => {
+    const one = toggleFavorite(EMPTY_SAVED_PLAYERS, player(1));
+    expect(one.favorites).toEqual([player(1)]);
+    expect(toggleFavorite(one, player(1)).favorites).toEqual([]);
+
+    const full = { ...EMPTY_SAVED_PLAYERS, favorites: Array.from({ length: MAX_FAVORITES }, (_, index) => player(index + 1)) };
+    expect(toggleFavorite(full, player(999))).toBe(full);
+  });
+});
+
+describe("parseSavedPlayers", () => {
+  it("round-trips the export format", () => {
+    const saved = { favorites: [player(1), player(2)], recents: [player(3)] };
+
+    expect(parseSavedPlayers(JSON.parse(serializeSavedPlayers(saved)))).toEqual({ saved });
+  });
+
+  it.each([
+    [null, "Not a saved players file"],
+    [{ favorites: [] }, "Unsupported saved players version (expected 1)"],
+    [{ version: 1, favorites: [{ id: "1", first_name: "A", last_name: "B" }] }, "Saved players file has an invalid player entry"],
+    [{ version: 1, recents: "jokic" }, "Saved players file has an invalid player entry"],
+  ])("rejects %j", (value, error) => {
+    expect(parseSavedPlayers(value)).toEqual({ error });
+  });
+});
+
+describe("mergeSavedPlayers", () => {
+  it("keeps current players first and skips ones already saved", () => {
+    const current = { favorites: [player(1)], recents: [player(2)] };
+    const imported = { favorites: [player(3), player(1)], recents: [player(2), player(4)] };
+
+    expect(mergeSavedPlayers(current, imported)).toEqual({
+      favorites: [player(1), player(3)],
+      recents: [player(2), player(4)],
+    });
+  });
+});
+
+describe("loadSavedPlayers / storeSavedPlayers", () => {
+  it("persists to storage and ignores anything unreadable", () => {
+    const storage = memoryStorage();
+    const saved = { favorites: [player(1)], recents: [] };
+
+    storeSavedPlayers(storage, saved);
+    expect(loadSavedPlayers(storage)).toEqual(saved);
+
+    storage.setItem(SAVED_PLAYERS_STORAGE_KEY, "{not json");
+    expect(loadSavedPlayers(storage)).toBe(EMPTY_SAVED_PLAYERS);
+  });
+
+  it("survives a storage that refuses writes", () => {
+    const storage = {
+      ...memoryStorage(),
+      setItem: () => {
+        throw new DOMException("Quota exceeded", "QuotaExceededError");
+      },
+    };
+
+    expect(() => storeSavedPlayers(storage, EMPTY_SAVED_PLAYERS)).not.toThrow();
+  });
+});
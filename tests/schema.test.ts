@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { getResultSets, SchemaDriftError, validateResultSet } from "@/lib/schema";
+import { loadFixture } from "@/mock/nba-server.mjs";
+
+type RecordedResultSet = { name: string; headers: string[]; rowSet: unknown[][] };
+
+/** A recorded response with `change` applied to its first result set */
+function drifted(name: string, change: (resultSet: RecordedResultSet) => void) {
+  const data = loadFixture(name);
+  change(data.resultSets[0]);
+  return data;
+}
+
+/** The SchemaDriftError thrown by `validate`, for asserting on its fields */
+function driftOf(validate: () => unknown): SchemaDriftError {
+  try {
+    validate();
+  } catch (error) {
+    if (error instanceof SchemaDriftError) return error;
+    throw error;
+  }
+  throw new Error("expected a SchemaDriftError");
+}
+
+describe("validateResultSet", () => {
+  it("maps recorded rows to records by header", () => {
+    const rows = validateResultSet(loadFixture("playergamelog"), "playergamelog", "PlayerGameLog");
+
+    expect(rows[0]).toMatchObject({ Game_ID: "0022401195", GAME_DATE: "APR 13, 2025", MATCHUP: "DEN @ HOU", WL: "W", FGA: 13 });
+    // Columns outside the schema are passed through
+    expect(rows[0].SEASON_ID).toBe("22024");
+  });
+
+  it("reports a missing column with the endpoint and column", () => {
+    const data = drifted("leaguedashplayerstats", (resultSet) => {
+      resultSet.headers = resultSet.headers.map((header) => (header === "FGA" ? "FG_ATTEMPTS" : header));
+    });
+    const error = driftOf(() => validateResultSet(data, "leaguedashplayerstats", "LeagueDashPlayerStats"));
+
+    expect(error).toMatchObject({
+      endpoint: "leaguedashplayerstats",
+      resultSet: "LeagueDashPlayerStats",
+      problems: ["missing columns FGA"],
+    });
+    expect(error.message).toBe("Schema drift in leaguedashplayerstats LeagueDashPlayerStats: missing columns FGA");
+  });
+
+  it("reports a value of the wrong type with its row and column", () => {
+    const data = drifted("playergamelog", (resultSet) => {
+      resultSet.rowSet[1][resultSet.headers.indexOf("PTS")] = "31";
+    });
+    const error = driftOf(() => validateResultSet(data, "playergamelog", "PlayerGameLog"));
+
+    expect(error.endpoint).toBe("playergamelog");
+    expect(error.problems).toEqual(['row 1 PTS is "31" (expected number)']);
+  });
+
+  it("accepts null only where the schema allows it", () => {
+    const nullable = drifted("playergamelog", (resultSet) => {
+      resultSet.rowSet[0][resultSet.headers.indexOf("WL")] = null;
+    });
+    const required = drifted("playergamelog", (resultSet) => {
+      resultSet.rowSet[0][resultSet.headers.indexOf("FGA")] = null;
+    });
+
+    expect(validateResultSet(nullable, "playergamelog", "PlayerGameLog")[0].WL).toBeNull();
+    expect(driftOf(() => validateResultSet(required, "playergamelog", "PlayerGameLog")).problems).toEqual([
+      "row 0 FGA is null (expected number)",
+    ]);
+  });
+
+  it("reports a missing result set with the ones that were there", () => {
+    const data = loadFixture("playercareerstats");
+    data.resultSets = data.resultSets.filter((resultSet: RecordedResultSet) => resultSet.name !== "SeasonTotalsPostSeason");
+    const error = driftOf(() => validateResultSet(data, "playercareerstats", "SeasonTotalsPostSeason"));
+
+    expect(error).toMatchObject({ endpoint: "playercareerstats", resultSet: "SeasonTotalsPostSeason" });
+    expect(error.problems[0]).toMatch(/^result set missing \(got SeasonTotalsRegularSeason, /);
+  });
+
+  it("reports a response without result sets", () => {
+    expect(driftOf(() => validateResultSet({ message: "Forbidden" }, "commonteamroster", "CommonTeamRoster"))).toMatchObject({
+      endpoint: "commonteamroster",
+      problems: ["response has no valid resultSets array"],
+    });
+  });
+});
+
+describe("getResultSets", () => {
+  it("rejects malformed result sets", () => {
+    expect(getResultSets(loadFixture("commonteamroster"))).toHaveLength(2);
+    expect(getResultSets({ resultSets: [{ name: "X", headers: [1], rowSet: [] }] })).toBeNull();
+    expect(getResultSets({ resultSets: [{ name: "X", headers: [], rowSet: [null] }] })).toBeNull();
+    expect(getResultSets(null)).toBeNull();
+  });
+});
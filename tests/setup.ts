@@ -0,0 +1,26 @@
+/**
+ * Runs before every test file: keep NBA requests local and fast
+ */
+
+import { afterEach } from "vitest";
+
+process.env.NBA_CACHE_DIR = "off";
+process.env.NBA_FETCH_RETRIES = "0";
+process.env.NBA_FETCH_TIMEOUT_MS = "2000";
+process.env.NBA_STATS_DIRECT_FALLBACK = "off";
+delete process.env.NBA_STATS_PROXY_SECRET;
+process.env.LOG_LEVEL = "silent";
+
+// Tests must never reach the real network; the mock NBA server listens on 127.0.0.1
+const realFetch = globalThis.fetch;
+globalThis.fetch = (input, init) => {
+  const url = new URL(input instanceof Request ? input.url : String(input), "http://127.0.0.1");
+  if (url.hostname !== "127.0.0.1" && url.hostname !== "localhost") {
+    return Promise.reject(new Error(`Network access is not allowed in tests: ${url}`));
+  }
+  return realFetch(input, init);
+};
+
+afterEach(() => {
+  process.env.NBA_FETCH_TIMEOUT_MS = "2000";
+});
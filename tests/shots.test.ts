@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateShotsToTarget,
+  calculateTrueShooting,
+  MAX_TARGET,
+  MIN_TARGET,
+  parseMode,
+  parseTarget,
+  parseTargetOption,
+} from "@/lib/shots";
+
+// Jokić's 2024-25 season line from fixtures/nba/playerdashboardbygeneralsplits.json
+const JOKIC = { pts: 29.6, fga: 19.5, fgm: 11.2, fg3m: 2, fg3a: 4.7, ftm: 5.2, fta: 6.4 };
+
+describe("parseTarget", () => {
+  it("accepts whole numbers from 1 to 200", () => {
+    expect(parseTarget("1")).toBe(MIN_TARGET);
+    expect(parseTarget("30")).toBe(30);
+    expect(parseTarget(" 81 ")).toBe(81);
+    expect(parseTarget("200")).toBe(MAX_TARGET);
+  });
+
+  it.each([null, undefined, "", "  ", "0", "201", "-5", "30.5", "abc", "1e3"])("rejects %j", (value) => {
+    expect(parseTarget(value)).toBeNull();
+  });
+});
+
+describe("parseTargetOption", () => {
+  const parse = (query: string) => parseTargetOption(new URLSearchParams(query));
+
+  it("defaults to 30 only when the param is absent", () => {
+    expect(parse("")).toEqual({ target: 30 });
+    expect(parse("target=45")).toEqual({ target: 45 });
+    expect(parse("target=")).toEqual({ error: "Invalid target (must be a whole number from 1 to 200)" });
+    expect(parse("target=201").error).toBeDefined();
+  });
+});
+
+describe("parseMode", () => {
+  it("reads both modes and the ts shorthand", () => {
+    expect(parseMode("naive")).toBe("naive");
+    expect(parseMode("true-shooting")).toBe("true-shooting");
+    expect(parseMode("ts")).toBe("true-shooting");
+    expect(parseMode("TS")).toBeNull();
+    expect(parseMode(null)).toBeNull();
+  });
+});
+
+describe("calculateShotsToTarget", () => {
+  it("divides the target by points per shot", () => {
+    expect(calculateShotsToTarget(29.6, 19.5)).toEqual({ target: 30, pointsPerShot: 1.518, shots: 19.8 });
+    expect(calculateShotsToTarget(29.6, 19.5, 40)).toEqual({ target: 40, pointsPerShot: 1.518, shots: 26.4 });
+    expect(calculateShotsToTarget(20, 20, 1)).toEqual({ target: 1, pointsPerShot: 1, shots: 1 });
+    expect(calculateShotsToTarget(10, 20, 200)?.shots).toBe(400);
+  });
+
+  it("returns null without points or attempts", () => {
+    expect(calculateShotsToTarget(0, 10)).toBeNull();
+    expect(calculateShotsToTarget(10, 0)).toBeNull();
+    expect(calculateShotsToTarget(Number.NaN, 10)).toBeNull();
+  });
+});
+
+describe("calculateTrueShooting", () => {
+  it("scales the season line to the target, keeping the shot mix", () => {
+    expect(calculateTrueShooting(JOKIC, 30)).toEqual({
+      target: 30,
+      // 29.6 / (2 × (19.5 + 0.44 × 6.4))
+      tsPct: 0.663,
+      fga: 19.8,
+      ftTrips: 2.9, // 0.44 × 6.4 × 30 / 29.6
+      fta: 6.5,
+      breakdown: {
+        twos: { attempts: 15, points: 18.6 },
+        threes: { attempts: 4.8, points: 6.1 },
+        freeThrows: { attempts: 6.5, points: 5.3 },
+      },
+    });
+  });
+
+  it("counts 0.44 of a possession per free throw attempt", () => {
+    const line = { pts: 22, fga: 10, fgm: 5, fg3m: 0, fg3a: 0, ftm: 12, fta: 25 };
+    const calculation = calculateTrueShooting(line, 22);
+
+    // 22 / (2 × (10 + 11)) = 0.524; on FGA alone it would be 1.1
+    expect(calculation?.tsPct).toBe(0.524);
+    expect(calculation?.ftTrips).toBe(11);
+    expect(calculation?.breakdown.freeThrows).toEqual({ attempts: 25, points: 12 });
+  });
+
+  it("grows linearly with the target while TS% stays put", () => {
+    const thirty = calculateTrueShooting(JOKIC, 30)!;
+    const sixty = calculateTrueShooting(JOKIC, 60)!;
+
+    expect(sixty.tsPct).toBe(thirty.tsPct);
+    expect(sixty.fga).toBe(39.5);
+    expect(sixty.fta).toBe(13);
+    const points = ({ twos, threes, freeThrows }: typeof sixty.breakdown) => twos.points + threes.points + freeThrows.points;
+    expect(points(sixty.breakdown)).toBeCloseTo(60, 0);
+  });
+
+  it("returns null without points or attempts", () => {
+    expect(calculateTrueShooting({ ...JOKIC, pts: 0 })).toBeNull();
+    expect(calculateTrueShooting({ ...JOKIC, fga: 0 })).toBeNull();
+  });
+});
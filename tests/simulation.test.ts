@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildShotModel,
+  CONFIDENCE_LEVELS,
+  createRng,
+  pointsDistribution,
+  shotsForProbability,
+  simulatePoints,
+  type GameShooting,
+} from "@/lib/simulation";
+
+const game = (fgm: number, fga: number, fg3m = 0, ftm = 0): GameShooting => ({ fgm, fga, fg3m, ftm });
+
+// Half the shots go in, all twos, no free throws: 2 × shots × 0.5 points on average
+const COIN_FLIP = buildShotModel([game(10, 20), game(5, 10)])!;
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const draw = (seed: number) => {
+      const rng = createRng(seed);
+      return Array.from({ length: 5 }, () => rng());
+    };
+
+    expect(draw(7)).toEqual(draw(7));
+    expect(draw(7)).not.toEqual(draw(8));
+    for (const value of draw(30)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("buildShotModel", () => {
+  it("uses season-long make rates and keeps each game's free-throw rate", () => {
+    expect(buildShotModel([game(10, 20, 4, 6), game(0, 0, 0, 2), game(5, 10, 1, 0)])).toEqual({
+      pTwo: 10 / 30,
+      pThree: 5 / 30,
+      ftPointsPerShot: [0.3, 0],
+      games: 2,
+    });
+  });
+
+  it("returns null without field goal attempts", () => {
+    expect(buildShotModel([])).toBeNull();
+    expect(buildShotModel([game(0, 0, 0, 8)])).toBeNull();
+  });
+});
+
+describe("simulatePoints / pointsDistribution", () => {
+  it("gives the same distribution for the same seed", () => {
+    expect(simulatePoints(COIN_FLIP, 20, 500, createRng(1))).toEqual(simulatePoints(COIN_FLIP, 20, 500, createRng(1)));
+    expect(simulatePoints(COIN_FLIP, 20, 500, createRng(1))).not.toEqual(simulatePoints(COIN_FLIP, 20, 500, createRng(2)));
+    expect(pointsDistribution(COIN_FLIP, 20, 20)).toEqual(pointsDistribution(COIN_FLIP, 20, 20));
+  });
+
+  it("centres on the expected points", () => {
+    const distribution = pointsDistribution(COIN_FLIP, 20, 20);
+
+    expect(distribution.mean).toBeCloseTo(20, 0);
+    expect(distribution.histogram.every(({ points }) => points % 2 === 0)).toBe(true);
+    expect(distribution.histogram.reduce((sum, { count }) => sum + count, 0)).toBe(distribution.trials);
+    // P(at least 10 of 20 coin flips) is about 0.59
+    expect(distribution.probability).toBeCloseTo(0.59, 1);
+  });
+
+  it("adds free-throw points from a drawn game", () => {
+    const model = buildShotModel([game(0, 10, 0, 5)])!;
+
+    expect(pointsDistribution(model, 10, 5)).toMatchObject({ mean: 5, probability: 1, histogram: [{ points: 5 }] });
+  });
+
+  it("reaches the target more often with more shots", () => {
+    const chances = [10, 15, 20, 25, 30].map((shots) => pointsDistribution(COIN_FLIP, shots, 30).probability);
+
+    expect(chances).toEqual([...chances].sort((a, b) => a - b));
+    expect(chances[0]).toBe(0);
+  });
+});
+
+describe("shotsForProbability", () => {
+  it("needs more shots for more confidence", () => {
+    const shots = CONFIDENCE_LEVELS.map((level) => shotsForProbability(COIN_FLIP, 30, level));
+
+    // Fixed by the default seed, so the same player always shows the same numbers
+    expect(shots).toEqual([29, 33, 37]);
+  });
+
+  it("finds the smallest shot count for a target of 1", () => {
+    const perfect = buildShotModel([game(10, 10)])!;
+
+    expect(shotsForProbability(perfect, 1, 0.9)).toBe(1);
+    // 1 - 0.5^n: 0.5, 0.75, 0.875, then 0.94
+    expect(shotsForProbability(COIN_FLIP, 1, 0.9)).toBe(4);
+  });
+
+  it("returns null for a shooter who never scores", () => {
+    const zero = buildShotModel([game(0, 12), game(0, 8)])!;
+
+    expect(pointsDistribution(zero, 50, 1).probability).toBe(0);
+    expect(shotsForProbability(zero, 30, 0.5)).toBeNull();
+  });
+});